@@ -6,6 +6,7 @@ package main
 import (
 	"bytes"
 	"encoding/json"
+	"fmt"
 	"io"
 	"log"
 	"net/http"
@@ -272,6 +273,90 @@ func getIcon(w http.ResponseWriter, r *http.Request) {
 	w.Write(output)
 }
 
+func extendDisk(w http.ResponseWriter, r *http.Request) {
+	// Grows C: into the unallocated space left behind by the host growing the virtual disk
+	cmd := exec.Command("powershell", "-ExecutionPolicy", "Bypass", "-File", "scripts\\extend-disk.ps1")
+	var stderr bytes.Buffer
+	cmd.Stderr = &stderr
+	output, err := cmd.Output()
+	if err != nil {
+		http.Error(w, "Failed to extend C: "+strings.TrimSpace(stderr.String()), http.StatusInternalServerError)
+		return
+	}
+
+	w.Header().Set("Content-Type", "application/json")
+	w.WriteHeader(http.StatusOK)
+	w.Write(output)
+}
+
+// Sets the password of a local Windows account
+func setWindowsPassword(username string, password string) error {
+	// The password goes through stdin and the username through the environment, so neither ends up in a command line
+	cmd := exec.Command("powershell", "-ExecutionPolicy", "Bypass", "-Command",
+		"$password = [Console]::In.ReadLine(); Set-LocalUser -Name $env:WINBOAT_USERNAME -Password (ConvertTo-SecureString $password -AsPlainText -Force)")
+	cmd.Env = append(os.Environ(), "WINBOAT_USERNAME="+username)
+	cmd.Stdin = strings.NewReader(password + "\n")
+
+	output, err := cmd.CombinedOutput()
+	if err != nil {
+		return fmt.Errorf("%v: %s", err, strings.TrimSpace(string(output)))
+	}
+	return nil
+}
+
+func rotateCredentials(w http.ResponseWriter, r *http.Request) {
+	// Verify the current password, just like /update does
+	expectedHash, err := getSecureRegKey(AUTHKEY_HASH_REG)
+	if err != nil || expectedHash == nil {
+		http.Error(w, "Unauthorized: failed to read auth hash", http.StatusUnauthorized)
+		return
+	}
+
+	password := r.FormValue("password")
+	if password == "" {
+		http.Error(w, "Unauthorized: password is required", http.StatusUnauthorized)
+		return
+	}
+
+	isValid, err := verifyPasswordSecure(*expectedHash, password)
+	if err != nil || !isValid {
+		http.Error(w, "Unauthorized: invalid password", http.StatusUnauthorized)
+		return
+	}
+
+	username := r.FormValue("username")
+	newPassword := r.FormValue("newPassword")
+	newAuthHash := r.FormValue("newAuthHash")
+	if username == "" || newPassword == "" || newAuthHash == "" {
+		http.Error(w, "username, newPassword and newAuthHash are required", http.StatusBadRequest)
+		return
+	}
+
+	if err := setWindowsPassword(username, newPassword); err != nil {
+		http.Error(w, "Failed to change the Windows password: "+err.Error(), http.StatusInternalServerError)
+		return
+	}
+
+	if err := setSecureRegKey(AUTHKEY_HASH_REG, newAuthHash); err != nil {
+		// Put the old password back, so that the host's credentials keep working
+		if rollbackErr := setWindowsPassword(username, password); rollbackErr != nil {
+			log.Println("Failed to restore the Windows password:", rollbackErr)
+		}
+		http.Error(w, "Failed to store auth hash: "+err.Error(), http.StatusInternalServerError)
+		return
+	}
+
+	// The OEM copy re-enrolls the hash should the registry key ever go missing, so it has to match
+	if err := os.WriteFile(AUTHKEY_HASH_OEM_LOCATION, []byte(newAuthHash), 0600); err != nil {
+		log.Println("Warning: failed to update the OEM auth hash:", err)
+	}
+
+	w.Header().Set("Content-Type", "application/json")
+	w.WriteHeader(http.StatusOK)
+	response := map[string]string{"status": "ok"}
+	json.NewEncoder(w).Encode(response)
+}
+
 func setAuthHash(w http.ResponseWriter, r *http.Request) {
 	// If there's an existing hash, reject
 	existingHash, err := getSecureRegKey(AUTHKEY_HASH_REG)
@@ -339,6 +424,8 @@ func main() {
 	r.HandleFunc("/update", applyUpdate).Methods("POST")
 	r.HandleFunc("/get-icon", getIcon).Methods("POST")
 	r.HandleFunc("/auth/set-hash", setAuthHash).Methods("POST")
+	r.HandleFunc("/auth/rotate", rotateCredentials).Methods("POST")
+	r.HandleFunc("/disk/extend", extendDisk).Methods("POST")
 	handler := cors.Default().Handler(r)
 
 	log.Println("Starting WinBoat Guest Server on :7148...")
@@ -0,0 +1,30 @@
+#Requires -Version 5.1
+
+# WinBoat - System Partition Extension Helper
+#
+# Usage:
+#   powershell -ExecutionPolicy Bypass -File extend-disk.ps1
+#
+# Output:
+#   Writes a JSON object with the size of C: before and after (in bytes) to stdout,
+#   and whether it was extended. Fails with a non-zero exit code if resizing fails.
+
+$ErrorActionPreference = 'Stop'
+
+# The disk grew while Windows was off, make sure Windows sees the new size
+Update-HostStorageCache
+
+$partition = Get-Partition -DriveLetter C
+$supportedSize = Get-PartitionSupportedSize -DriveLetter C
+$previousSize = $partition.Size
+
+# Anything below a megabyte is alignment slack rather than free space
+if ($supportedSize.SizeMax - $previousSize -gt 1MB) {
+    Resize-Partition -DriveLetter C -Size $supportedSize.SizeMax
+}
+
+[PSCustomObject]@{
+    extended      = $supportedSize.SizeMax - $previousSize -gt 1MB
+    previous_size = $previousSize
+    new_size      = (Get-Partition -DriveLetter C).Size
+} | ConvertTo-Json -Compress
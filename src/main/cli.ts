@@ -0,0 +1,58 @@
+import { app, BrowserWindow, ipcMain } from "electron";
+import { join } from "path";
+import { enable } from "@electron/remote/main/index.js";
+
+// Keep in sync with the commands handled in src/renderer/cli.ts
+const CLI_COMMANDS = ["status", "start", "stop", "restart", "pause", "unpause", "apps", "launch", "logs", "help"];
+// Options that take the next argument as their value, which mustn't be mistaken for the command
+const CLI_VALUE_OPTIONS = ["--vm"];
+
+/**
+ * Returns the CLI arguments WinBoat was started with, or `null` if it should start the regular UI
+ */
+export function getCLIArgs(): string[] | null {
+    // In development the renderer port is passed as the first argument
+    const offset = process.env.NODE_ENV === "development" ? 3 : app.isPackaged ? 1 : 2;
+    const args = process.argv.slice(offset);
+    const command = args.find((arg, i) => !arg.startsWith("-") && !CLI_VALUE_OPTIONS.includes(args[i - 1]));
+
+    return command && CLI_COMMANDS.includes(command) ? args : null;
+}
+
+/**
+ * Runs a CLI command in a hidden renderer, so that it has access to the same
+ * runtime, config and app management code as the UI, then exits with its exit code
+ */
+export function runCLI(args: string[]) {
+    const cliWindow = new BrowserWindow({
+        show: false,
+        webPreferences: {
+            nodeIntegration: true,
+            contextIsolation: false,
+        },
+    });
+
+    enable(cliWindow.webContents);
+
+    ipcMain.on("cli:stdout", (_event, text: string) => process.stdout.write(text));
+    ipcMain.on("cli:stderr", (_event, text: string) => process.stderr.write(text));
+    ipcMain.once("cli:exit", (_event, exitCode: number) => {
+        // Closing (rather than exiting right away) lets the renderer clean up, e.g. stop container event streams
+        cliWindow.once("closed", () => app.exit(exitCode));
+        cliWindow.close();
+    });
+
+    cliWindow.webContents.on("render-process-gone", (_event, details) => {
+        process.stderr.write(`winboat: CLI renderer exited unexpectedly (${details.reason})\n`);
+        app.exit(1);
+    });
+
+    const query = { args: JSON.stringify(args) };
+
+    if (process.env.NODE_ENV === "development") {
+        const rendererPort = process.argv[2];
+        cliWindow.loadURL(`http://localhost:${rendererPort}/cli.html?${new URLSearchParams(query)}`);
+    } else {
+        cliWindow.loadFile(join(app.getAppPath(), "renderer", "cli.html"), { query });
+    }
+}
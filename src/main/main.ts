@@ -2,6 +2,7 @@ import { app, BrowserWindow, ipcMain, session, dialog } from "electron";
 import { join } from "path";
 import { initialize, enable } from "@electron/remote/main/index.js";
 import Store from "electron-store";
+import { getCLIArgs, runCLI } from "./cli.js";
 
 initialize();
 
@@ -53,6 +54,7 @@ const windowStore = new Store<SchemaType>({
 });
 
 let mainWindow: BrowserWindow | null = null;
+const cliArgs = getCLIArgs();
 
 function createWindow() {
     if (!app.requestSingleInstanceLock()) {
@@ -107,7 +109,11 @@ function createWindow() {
 }
 
 app.whenReady().then(() => {
-    createWindow();
+    if (cliArgs) {
+        runCLI(cliArgs);
+    } else {
+        createWindow();
+    }
 
     session.defaultSession.webRequest.onHeadersReceived((details, callback) => {
         callback({
@@ -128,7 +134,7 @@ app.whenReady().then(() => {
     app.on("activate", function () {
         // On macOS it's common to re-create a window in the app when the
         // dock icon is clicked and there are no other windows open.
-        if (BrowserWindow.getAllWindows().length === 0) {
+        if (!cliArgs && BrowserWindow.getAllWindows().length === 0) {
             createWindow();
         }
     });
@@ -0,0 +1,306 @@
+// Entry point of the headless CLI. The main process loads this in a hidden window
+// and forwards whatever we send over IPC to its own stdout/stderr, see src/main/cli.ts
+import { type WinApp } from "../types";
+import { extendPathWithDefaultEntries, WINBOAT_DIR } from "./lib/constants";
+import { WinboatConfig } from "./lib/config";
+import { RuntimeStatus } from "./lib/runtimes/common";
+import { getActiveVM, getVM, getVMs } from "./lib/vms";
+import { getVMPassword } from "./lib/secrets";
+import { scanLogsForSecrets } from "./utils/redact";
+import { getQemuNativeRuntimeDir } from "./lib/containers/qemu-native";
+import { FreeRDPError } from "./lib/freerdp-errors";
+import { logger, Winboat } from "./lib/winboat";
+import { watch } from "vue";
+
+const { ipcRenderer }: typeof import("electron") = require("electron");
+
+const USAGE = `Usage: winboat <command> [--json] [--vm <id>]
+
+Commands:
+  status              Show the state of the VM and the guest server
+  start               Start the VM
+  stop                Stop the VM
+  restart             Restart the VM
+  pause               Pause the VM
+  unpause             Resume a paused VM
+  apps list           List the apps installed in Windows
+  launch <app name> [-- <file>...]
+                      Launch an app, returns once its window is closed.
+                      Starts or resumes the VM first if needed.
+                      Files have to be in the shared folder, unless staging is enabled
+  logs scan           Scan the log files for leaked passwords and auth hashes,
+                      fails if any are found
+  help                Show this message
+
+Options:
+  --json              Print machine-readable JSON instead of text
+  --vm <id>           Act on the given VM instead of the selected one
+`;
+
+enum ExitCode {
+    SUCCESS = 0,
+    FAILURE = 1,
+    USAGE = 2,
+}
+
+type CLIOptions = {
+    json: boolean;
+    vmId?: string;
+    positionals: string[];
+    // Everything after '--', so that file names can't be mistaken for options
+    files: string[];
+};
+
+class CLIError extends Error {
+    constructor(
+        message: string,
+        readonly exitCode: ExitCode = ExitCode.FAILURE,
+    ) {
+        super(message);
+    }
+}
+
+function parseArgs(args: string[]): CLIOptions {
+    const options: CLIOptions = { json: false, positionals: [], files: [] };
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+
+        if (arg === "--") {
+            options.files = args.slice(i + 1);
+            break;
+        } else if (arg === "--json") {
+            options.json = true;
+        } else if (arg === "--vm") {
+            options.vmId = args[++i];
+            if (!options.vmId) throw new CLIError("--vm requires a VM id", ExitCode.USAGE);
+        } else if (arg.startsWith("--vm=")) {
+            options.vmId = arg.slice("--vm=".length);
+        } else if (!arg.startsWith("-")) {
+            options.positionals.push(arg);
+        }
+        // Anything else is most likely a Chromium/Electron switch, which isn't ours to handle
+    }
+
+    return options;
+}
+
+function print(text: string) {
+    ipcRenderer.send("cli:stdout", text.endsWith("\n") ? text : `${text}\n`);
+}
+
+function printResult(options: CLIOptions, json: object, text: string) {
+    print(options.json ? JSON.stringify(json, null, 4) : text);
+}
+
+async function getWinboat(options: CLIOptions): Promise<Winboat> {
+    const vmId = options.vmId ?? getActiveVM().id;
+
+    if (!getVM(vmId)) {
+        throw new CLIError(`No VM with id '${vmId}' is registered`);
+    }
+
+    const winboat = Winboat.getInstance(vmId);
+
+    if (!(await winboat.containerMgr!.exists())) {
+        throw new CLIError(`VM '${winboat.vm.name}' is not installed, open WinBoat to set it up`);
+    }
+
+    return winboat;
+}
+
+/**
+ * Makes sure the VM is running and its guest server answers, so that the guest API can be used
+ */
+async function ensureGuestOnline(winboat: Winboat) {
+    if ((await winboat.containerMgr!.getStatus()) !== RuntimeStatus.RUNNING) {
+        throw new CLIError(`VM '${winboat.vm.name}' is not running, start it with 'winboat start'`);
+    }
+
+    await winboat.containerMgr!.port(); // Cache active port mappings
+
+    if (!(await winboat.getHealth())) {
+        throw new CLIError(`The guest server of VM '${winboat.vm.name}' is not reachable yet`);
+    }
+}
+
+async function status(options: CLIOptions) {
+    const winboat = await getWinboat(options);
+    const containerStatus = await winboat.containerMgr!.getStatus();
+
+    let guestOnline = false;
+    if (containerStatus === RuntimeStatus.RUNNING) {
+        await winboat.containerMgr!.port();
+        guestOnline = await winboat.getHealth();
+    }
+
+    printResult(
+        options,
+        {
+            vm: { id: winboat.vm.id, name: winboat.vm.name },
+            runtime: winboat.containerMgr!.executableAlias,
+            container: winboat.containerMgr!.containerName,
+            status: containerStatus,
+            guestOnline,
+        },
+        [
+            `VM:         ${winboat.vm.name} (${winboat.vm.id})`,
+            `Container:  ${winboat.containerMgr!.containerName} (${winboat.containerMgr!.executableAlias})`,
+            `Status:     ${containerStatus}`,
+            `Guest API:  ${guestOnline ? "Online" : "Offline"}`,
+        ].join("\n"),
+    );
+}
+
+async function containerAction(options: CLIOptions, action: "start" | "stop" | "restart" | "pause" | "unpause") {
+    const winboat = await getWinboat(options);
+    const actions = {
+        start: () => winboat.startContainer(),
+        stop: () => winboat.stopContainer(),
+        restart: () => winboat.restartContainer(),
+        pause: () => winboat.pauseContainer(),
+        unpause: () => winboat.unpauseContainer(),
+    };
+
+    await actions[action]();
+    const containerStatus = await winboat.containerMgr!.getStatus();
+
+    printResult(
+        options,
+        { vm: winboat.vm.id, action, status: containerStatus },
+        `${winboat.vm.name}: ${containerStatus}`,
+    );
+}
+
+async function getApps(winboat: Winboat): Promise<WinApp[]> {
+    await ensureGuestOnline(winboat);
+    return await winboat.appMgr!.getApps();
+}
+
+async function appsList(options: CLIOptions) {
+    const winboat = await getWinboat(options);
+    const apps = await getApps(winboat);
+
+    printResult(
+        options,
+        apps.map(app => ({ name: app.Name, path: app.Path, args: app.Args, source: app.Source, usage: app.Usage })),
+        apps.map(app => `${app.Name}\t${app.Path}`).join("\n"),
+    );
+}
+
+async function launch(options: CLIOptions, appName: string) {
+    const winboat = await getWinboat(options);
+    // Launchers should just work, even if the VM went idle in the meantime
+    const unwatchBoot = watch(winboat.bootStage, stage => {
+        if (stage) ipcRenderer.send("cli:stderr", `${stage}...\n`);
+    });
+
+    try {
+        await winboat.ensureRunning();
+    } finally {
+        unwatchBoot();
+    }
+
+    const apps = await getApps(winboat);
+    const app =
+        apps.find(app => app.Name === appName) ?? apps.find(app => app.Name.toLowerCase() === appName.toLowerCase());
+
+    if (!app) {
+        throw new CLIError(`No app named '${appName}' found, see 'winboat apps list'`);
+    }
+
+    try {
+        await winboat.launchApp(app, options.files);
+    } catch (e) {
+        if (!(e instanceof FreeRDPError)) throw e;
+
+        throw new CLIError(`${e.message} (${e.description.name}). ${e.description.remediation}`);
+    }
+
+    printResult(
+        options,
+        { vm: winboat.vm.id, launched: app.Name, files: options.files },
+        `Session for '${app.Name}' ended`,
+    );
+}
+
+async function logsScan(options: CLIOptions) {
+    // Looking the passwords up registers them as known secrets, so that they're found verbatim as well
+    for (const vm of getVMs()) {
+        await getVMPassword(vm);
+    }
+
+    // Besides WinBoat's own logs, the native runtime keeps QEMU's output next to each VM's data
+    const logDirs = [WINBOAT_DIR, ...getVMs().map(vm => getQemuNativeRuntimeDir(vm))];
+    const leaks = logDirs.flatMap(logDir => scanLogsForSecrets(logDir));
+    printResult(
+        options,
+        leaks,
+        leaks.length
+            ? leaks.map(leak => `${leak.file}:${leak.line}: ${leak.rule}\n    ${leak.excerpt}`).join("\n")
+            : `No secrets found in the logs in ${logDirs.join(", ")}`,
+    );
+
+    if (leaks.length) {
+        throw new CLIError(`Found ${leaks.length} leaked secret${leaks.length === 1 ? "" : "s"} in the logs`);
+    }
+}
+
+async function run(args: string[]): Promise<ExitCode> {
+    const options = parseArgs(args);
+    const [command, ...rest] = options.positionals;
+
+    // Avoid creating a fresh config as a side effect of e.g. 'winboat status'
+    if (command !== "help" && !WinboatConfig.readConfigObject(false)) {
+        throw new CLIError("WinBoat is not installed, open WinBoat to set it up");
+    }
+
+    switch (command) {
+        case "status":
+            await status(options);
+            break;
+        case "start":
+        case "stop":
+        case "restart":
+        case "pause":
+        case "unpause":
+            await containerAction(options, command);
+            break;
+        case "apps":
+            if (rest[0] !== "list") throw new CLIError(`Unknown apps subcommand '${rest[0] ?? ""}'`, ExitCode.USAGE);
+            await appsList(options);
+            break;
+        case "launch":
+            if (!rest.length) throw new CLIError("Missing app name", ExitCode.USAGE);
+            await launch(options, rest.join(" "));
+            break;
+        case "logs":
+            if (rest[0] !== "scan") throw new CLIError(`Unknown logs subcommand '${rest[0] ?? ""}'`, ExitCode.USAGE);
+            await logsScan(options);
+            break;
+        case "help":
+            print(USAGE);
+            break;
+        default:
+            throw new CLIError(`Unknown command '${command ?? ""}'`, ExitCode.USAGE);
+    }
+
+    return ExitCode.SUCCESS;
+}
+
+extendPathWithDefaultEntries();
+
+const cliArgs = JSON.parse(new URLSearchParams(window.location.search).get("args") ?? "[]") as string[];
+
+run(cliArgs)
+    .catch((e: unknown) => {
+        const message = e instanceof Error ? e.message : String(e);
+        const exitCode = e instanceof CLIError ? e.exitCode : ExitCode.FAILURE;
+
+        logger.error(`CLI command '${cliArgs.join(" ")}' failed`);
+        logger.error(e);
+        ipcRenderer.send("cli:stderr", `winboat: ${message}\n${exitCode === ExitCode.USAGE ? `\n${USAGE}` : ""}`);
+
+        return exitCode;
+    })
+    .then(exitCode => ipcRenderer.send("cli:exit", exitCode));
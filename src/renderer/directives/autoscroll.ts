@@ -5,28 +5,33 @@ interface ScrollOptions {
     behavior?: ScrollBehavior;
     top?: number;
     left?: number;
+    // Stops scrolling to the bottom, e.g. while the user looks at older content
+    disabled?: boolean;
 }
 
 interface AutoScrollElement extends HTMLElement {
     _autoScrollObserver?: MutationObserver;
+    _autoScrollOptions?: ScrollOptions;
+}
+
+function scrollToBottom(el: AutoScrollElement) {
+    const { disabled, ...options } = el._autoScrollOptions ?? {};
+    if (disabled) return;
+
+    el.scrollTo({
+        top: el.scrollHeight,
+        behavior: "smooth",
+        ...options,
+    });
 }
 
 export const autoScroll: Directive<AutoScrollElement, ScrollOptions> = {
     mounted(el: AutoScrollElement, binding: DirectiveBinding<ScrollOptions>) {
-        // Store the mutation observer instance on the element
-        el._autoScrollObserver = new MutationObserver(() => {
-            // Get scroll options from binding value or use defaults
-            const options: ScrollOptions = {
-                behavior: "smooth",
-                ...binding.value,
-            };
+        // The observer outlives this binding, so it reads the options off the element
+        el._autoScrollOptions = binding.value;
 
-            // Scroll to bottom
-            el.scrollTo({
-                top: el.scrollHeight,
-                ...options,
-            });
-        });
+        // Store the mutation observer instance on the element
+        el._autoScrollObserver = new MutationObserver(() => scrollToBottom(el));
 
         // Configure the observer to watch for changes
         const config: MutationObserverInit = {
@@ -39,10 +44,7 @@ export const autoScroll: Directive<AutoScrollElement, ScrollOptions> = {
         el._autoScrollObserver.observe(el, config);
 
         // Initial scroll
-        el.scrollTo({
-            top: el.scrollHeight,
-            behavior: binding.value?.behavior ?? "smooth",
-        });
+        scrollToBottom(el);
     },
 
     beforeUnmount(el: AutoScrollElement): void {
@@ -51,18 +53,12 @@ export const autoScroll: Directive<AutoScrollElement, ScrollOptions> = {
             el._autoScrollObserver.disconnect();
             delete el._autoScrollObserver;
         }
+        delete el._autoScrollOptions;
     },
 
     // Re-apply when component updates
     updated(el: AutoScrollElement, binding: DirectiveBinding<ScrollOptions>): void {
-        const options: ScrollOptions = {
-            behavior: "smooth",
-            ...binding.value,
-        };
-
-        el.scrollTo({
-            top: el.scrollHeight,
-            ...options,
-        });
+        el._autoScrollOptions = binding.value;
+        scrollToBottom(el);
     },
 };
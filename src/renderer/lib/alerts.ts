@@ -0,0 +1,231 @@
+import { type Metrics, type WinboatVM } from "../../types";
+import { createLogger } from "../utils/log";
+import { WINBOAT_DIR } from "./constants";
+import { createNanoEvents, type Emitter } from "nanoevents";
+import { ref, type Ref } from "vue";
+
+const path: typeof import("path") = require("node:path");
+
+const logger = createLogger(path.join(WINBOAT_DIR, "alerts.log"));
+
+export enum AlertMetric {
+    CPU = "cpu",
+    RAM = "ram",
+    DISK = "disk",
+    GUEST_OFFLINE = "guestOffline",
+}
+
+export const AlertMetricLabels: Record<AlertMetric, string> = {
+    [AlertMetric.CPU]: "Guest CPU",
+    [AlertMetric.RAM]: "Guest RAM",
+    [AlertMetric.DISK]: "Guest disk",
+    [AlertMetric.GUEST_OFFLINE]: "Guest API offline",
+};
+
+export type AlertRule = {
+    id: string;
+    enabled: boolean;
+    metric: AlertMetric;
+    // Usage in percent the metric has to exceed, unused for GUEST_OFFLINE
+    threshold: number;
+    // How long the condition has to hold before the alert fires, and how long it has to be gone before it clears
+    durationSeconds: number;
+    // How many percentage points below the threshold usage has to drop before the alert clears
+    hysteresis: number;
+};
+
+export type ActiveAlert = {
+    rule: AlertRule;
+    message: string;
+    since: number;
+};
+
+/**
+ * What the rules get evaluated against, `metrics` is `null` while they aren't known
+ */
+export type AlertSample = {
+    metrics: Metrics | null;
+    isOnline: boolean;
+    containerRunning: boolean;
+};
+
+type RuleState = {
+    firing: boolean;
+    // When the current streak of the condition holding (or being gone, while firing) started
+    streakSince: number | null;
+};
+
+interface AlertEvents {
+    fired: (alert: ActiveAlert) => void;
+    resolved: (ruleId: string) => void;
+}
+
+export function createDefaultAlertRules(): AlertRule[] {
+    return [
+        {
+            id: "disk-full",
+            enabled: true,
+            metric: AlertMetric.DISK,
+            threshold: 90,
+            durationSeconds: 5 * 60,
+            hysteresis: 5,
+        },
+        {
+            id: "ram-exhausted",
+            enabled: true,
+            metric: AlertMetric.RAM,
+            threshold: 95,
+            durationSeconds: 60,
+            hysteresis: 5,
+        },
+        {
+            id: "guest-offline",
+            enabled: true,
+            metric: AlertMetric.GUEST_OFFLINE,
+            threshold: 0,
+            durationSeconds: 2 * 60,
+            hysteresis: 0,
+        },
+    ];
+}
+
+function formatDuration(seconds: number): string {
+    if (seconds >= 60 && seconds % 60 === 0) {
+        const minutes = seconds / 60;
+        return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+    }
+
+    return `${seconds} second${seconds === 1 ? "" : "s"}`;
+}
+
+/**
+ * Returns a human readable summary of a rule, e.g. "Guest disk above 90% for 5 minutes"
+ */
+export function describeAlertRule(rule: AlertRule): string {
+    const label = AlertMetricLabels[rule.metric];
+    const duration = rule.durationSeconds > 0 ? ` for ${formatDuration(rule.durationSeconds)}` : "";
+
+    if (rule.metric === AlertMetric.GUEST_OFFLINE) {
+        return `${label} while the container is running${duration}`;
+    }
+
+    return `${label} above ${rule.threshold}%${duration}`;
+}
+
+/**
+ * Tells whether a rule's condition holds (`true`), is clearly gone (`false`), or neither (`null`),
+ * the latter being the case within the hysteresis band or while the metric isn't known
+ */
+function checkCondition(rule: AlertRule, sample: AlertSample): boolean | null {
+    if (rule.metric === AlertMetric.GUEST_OFFLINE) {
+        return sample.containerRunning && !sample.isOnline;
+    }
+
+    if (!sample.metrics) return null;
+
+    const usage = {
+        [AlertMetric.CPU]: sample.metrics.cpu.usage,
+        [AlertMetric.RAM]: sample.metrics.ram.percentage,
+        [AlertMetric.DISK]: sample.metrics.disk.percentage,
+    }[rule.metric];
+
+    if (usage > rule.threshold) return true;
+    if (usage < rule.threshold - rule.hysteresis) return false;
+
+    return null;
+}
+
+/**
+ * Evaluates the configured alert rules against a VM's guest, notifying the user when one fires
+ */
+export class AlertManager {
+    readonly emitter: Emitter<AlertEvents> = createNanoEvents<AlertEvents>();
+    // Alerts that are firing and haven't been dismissed, shown as banners
+    readonly active: Ref<ActiveAlert[]> = ref([]);
+    readonly #vm: WinboatVM;
+    readonly #getRules: () => AlertRule[];
+    readonly #states = new Map<string, RuleState>();
+
+    /**
+     * @param vm The VM whose guest is being watched
+     * @param getRules Returns the current rules, so that changes to the config apply right away
+     */
+    constructor(vm: WinboatVM, getRules: () => AlertRule[]) {
+        this.#vm = vm;
+        this.#getRules = getRules;
+    }
+
+    evaluate(sample: AlertSample, now = Date.now()) {
+        const rules = this.#getRules().filter(rule => rule.enabled);
+
+        // Rules that were removed or disabled in the meantime
+        for (const ruleId of this.#states.keys()) {
+            if (!rules.some(rule => rule.id === ruleId)) {
+                this.#resolve(ruleId);
+                this.#states.delete(ruleId);
+            }
+        }
+
+        for (const rule of rules) {
+            const state = this.#states.get(rule.id) ?? { firing: false, streakSince: null };
+            this.#states.set(rule.id, state);
+
+            const holds = checkCondition(rule, sample);
+
+            // A firing alert counts how long the condition has been gone, a pending one how long it has held
+            if (holds === null || holds === state.firing) {
+                state.streakSince = null;
+                continue;
+            }
+
+            state.streakSince ??= now;
+            if (now - state.streakSince < rule.durationSeconds * 1000) continue;
+
+            state.streakSince = null;
+
+            if (holds) {
+                this.#fire(rule, now);
+            } else {
+                this.#resolve(rule.id);
+            }
+        }
+    }
+
+    #fire(rule: AlertRule, now: number) {
+        this.#states.get(rule.id)!.firing = true;
+        const alert: ActiveAlert = { rule: { ...rule }, message: describeAlertRule(rule), since: now };
+        this.active.value = [...this.active.value, alert];
+        logger.warn(`[${this.#vm.id}] Alert fired: ${alert.message}`);
+
+        new Notification(`WinBoat: ${this.#vm.name}`, { body: alert.message });
+        this.emitter.emit("fired", alert);
+    }
+
+    #resolve(ruleId: string) {
+        const state = this.#states.get(ruleId);
+        if (!state?.firing) return;
+
+        state.firing = false;
+        this.active.value = this.active.value.filter(alert => alert.rule.id !== ruleId);
+        logger.info(`[${this.#vm.id}] Alert '${ruleId}' resolved`);
+        this.emitter.emit("resolved", ruleId);
+    }
+
+    /**
+     * Hides an alert's banner, it won't notify again until it has cleared and fired anew
+     */
+    dismiss(ruleId: string) {
+        this.active.value = this.active.value.filter(alert => alert.rule.id !== ruleId);
+    }
+
+    /**
+     * Resolves every alert, e.g. because the container stopped and there's nothing left to watch
+     */
+    clear() {
+        for (const ruleId of this.#states.keys()) {
+            this.#resolve(ruleId);
+        }
+
+        this.#states.clear();
+    }
+}
@@ -0,0 +1,181 @@
+import { type ComposeConfig, type WinboatVM } from "../../types";
+import { createLogger } from "../utils/log";
+import { ComposePortEntry } from "../utils/port";
+import { WINBOAT_DIR } from "./constants";
+
+const fs: typeof import("fs") = require("node:fs");
+const path: typeof import("path") = require("node:path");
+const YAML: typeof import("yaml") = require("yaml");
+
+const logger = createLogger(path.join(WINBOAT_DIR, "compose-backups.log"));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Backups are named `<timestamp>-<compose file name>`, see Winboat.replaceCompose
+const BACKUP_NAME_REGEX = /^(\d+)-.+\.ya?ml$/;
+// Environment variables whose values never get shown
+const SECRET_ENV_KEYS = ["PASSWORD"];
+const SECRET_PLACEHOLDER = "••••••••";
+
+export type ComposeBackup = {
+    fileName: string;
+    path: string;
+    // When the backup was taken in ms since epoch
+    date: number;
+};
+
+export type ComposeBackupRetention = {
+    // How many backups to keep at most, 0 keeps all of them
+    keepLast: number;
+    // How old backups may get in days, 0 keeps them forever
+    maxAgeDays: number;
+};
+
+export enum ComposeDiffSection {
+    PORTS = "Ports",
+    ENVIRONMENT = "Environment",
+    VOLUMES = "Volumes",
+    DEVICES = "Devices",
+}
+
+/**
+ * A single changed entry, `before`/`after` are `null` if the entry was added/removed
+ */
+export type ComposeChange = {
+    key: string;
+    before: string | null;
+    after: string | null;
+};
+
+export type ComposeDiff = Record<ComposeDiffSection, ComposeChange[]>;
+
+export function getComposeBackupDir(vm: WinboatVM): string {
+    return path.join(vm.dataDir, "backup");
+}
+
+/**
+ * Returns the VM's compose backups, newest first
+ */
+export function listComposeBackups(vm: WinboatVM): ComposeBackup[] {
+    const backupDir = getComposeBackupDir(vm);
+    if (!fs.existsSync(backupDir)) return [];
+
+    return fs
+        .readdirSync(backupDir)
+        .map(fileName => ({ fileName, match: fileName.match(BACKUP_NAME_REGEX) }))
+        .filter(({ match }) => !!match)
+        .map(({ fileName, match }) => ({
+            fileName,
+            path: path.join(backupDir, fileName),
+            date: Number(match![1]),
+        }))
+        .sort((a, b) => b.date - a.date);
+}
+
+export function readComposeBackup(backup: ComposeBackup): ComposeConfig {
+    return YAML.parse(fs.readFileSync(backup.path, "utf-8")) as ComposeConfig;
+}
+
+/**
+ * Deletes the backups that fall outside the retention policy
+ * @returns How many backups were deleted
+ */
+export function pruneComposeBackups(vm: WinboatVM, retention: ComposeBackupRetention, now = Date.now()): number {
+    const stale = listComposeBackups(vm).filter(
+        (backup, index) =>
+            (retention.keepLast > 0 && index >= retention.keepLast) ||
+            (retention.maxAgeDays > 0 && now - backup.date > retention.maxAgeDays * DAY_MS),
+    );
+
+    for (const backup of stale) {
+        try {
+            fs.rmSync(backup.path);
+            logger.info(`Deleted compose backup ${backup.path}`);
+        } catch (e) {
+            logger.error(`Failed to delete compose backup ${backup.path}`);
+            logger.error(e);
+        }
+    }
+
+    return stale.length;
+}
+
+/**
+ * Keys port mappings by their container port and protocol, so a changed host port shows up as a change
+ */
+function mapPorts(ports: ComposeConfig["services"]["windows"]["ports"]): Map<string, string> {
+    return new Map(
+        ports.map(port => {
+            if (typeof port !== "string") {
+                const host = [port.host_ip, port.published].filter(Boolean).join(":");
+                return [`${port.target}/${port.protocol ?? "tcp"}`, host];
+            }
+
+            try {
+                const entry = new ComposePortEntry(port);
+                return [`${entry.container}/${entry.protocol}`, `${entry.hostIP}:${entry.host}`];
+            } catch {
+                return [port, port];
+            }
+        }),
+    );
+}
+
+/**
+ * Keys `HOST:CONTAINER[:MODE]` style entries (volumes, devices) by their container path
+ */
+function mapBindings(bindings: string[]): Map<string, string> {
+    return new Map(
+        bindings.map(binding => {
+            const [host, container, mode] = binding.split(":");
+            if (!container) return [host, host];
+
+            return [container, mode ? `${host} (${mode})` : host];
+        }),
+    );
+}
+
+function mapEnvironment(environment: ComposeConfig["services"]["windows"]["environment"]): Map<string, string> {
+    return new Map(Object.entries(environment ?? {}).map(([key, value]) => [key, String(value)]));
+}
+
+function maskSecret(change: ComposeChange): ComposeChange {
+    if (!SECRET_ENV_KEYS.includes(change.key)) return change;
+
+    return {
+        key: change.key,
+        before: change.before === null ? null : SECRET_PLACEHOLDER,
+        after: change.after === null ? null : `${SECRET_PLACEHOLDER}${change.before === null ? "" : " (changed)"}`,
+    };
+}
+
+function diffMaps(before: Map<string, string>, after: Map<string, string>): ComposeChange[] {
+    const keys = [...new Set([...before.keys(), ...after.keys()])].sort();
+
+    return keys
+        .map(key => ({ key, before: before.get(key) ?? null, after: after.get(key) ?? null }))
+        .filter(change => change.before !== change.after);
+}
+
+/**
+ * Compares the parts of two compose files users actually change, secrets are masked
+ */
+export function diffCompose(before: ComposeConfig, after: ComposeConfig): ComposeDiff {
+    const beforeService = before.services.windows;
+    const afterService = after.services.windows;
+
+    return {
+        [ComposeDiffSection.PORTS]: diffMaps(mapPorts(beforeService.ports ?? []), mapPorts(afterService.ports ?? [])),
+        [ComposeDiffSection.ENVIRONMENT]: diffMaps(
+            mapEnvironment(beforeService.environment),
+            mapEnvironment(afterService.environment),
+        ).map(maskSecret),
+        [ComposeDiffSection.VOLUMES]: diffMaps(
+            mapBindings(beforeService.volumes ?? []),
+            mapBindings(afterService.volumes ?? []),
+        ),
+        [ComposeDiffSection.DEVICES]: diffMaps(
+            mapBindings(beforeService.devices ?? []),
+            mapBindings(afterService.devices ?? []),
+        ),
+    };
+}
@@ -1,10 +1,17 @@
 const fs: typeof import("fs") = require("node:fs");
 const path: typeof import("path") = require("node:path");
-import { type GuestArchitecture, type WinApp } from "../../types";
-import { WINBOAT_DIR } from "./constants";
+import { type GuestArchitecture, type WinApp, type WinboatVM } from "../../types";
+import { DEFAULT_VM_ID, WINBOAT_DIR } from "./constants";
 import { type PTSerializableDeviceInfo } from "./usbmanager";
-import { RuntimeKinds, getPreferredGuestArchitecture, type RuntimeKind } from "./runtimes/common";
+import { type AlertRule, createDefaultAlertRules } from "./alerts";
+import {
+    RuntimeKinds,
+    getDefaultContainerName,
+    getPreferredGuestArchitecture,
+    type RuntimeKind,
+} from "./runtimes/common";
 import { logger } from "./winboat";
+import { configureLogRotation } from "../utils/log";
 
 export type RdpArg = {
     original?: string;
@@ -56,7 +63,13 @@ export enum MultiMonitorMode {
     Span = "Span",
 }
 
-export const CONFIG_SCHEMA_VERSION = 2;
+export enum IdleAction {
+    None = "None",
+    Pause = "Pause",
+    Stop = "Stop",
+}
+
+export const CONFIG_SCHEMA_VERSION = 3;
 
 export type WinboatConfigObj = {
     scale: number;
@@ -64,7 +77,8 @@ export type WinboatConfigObj = {
     smartcardEnabled: boolean;
     rdpMonitoringEnabled: boolean;
     passedThroughDevices: PTSerializableDeviceInfo[];
-    customApps: WinApp[];
+    vms: WinboatVM[];
+    activeVMId: string;
     experimentalFeatures: boolean;
     advancedFeatures: boolean;
     multiMonitor: MultiMonitorMode;
@@ -75,11 +89,41 @@ export type WinboatConfigObj = {
     schemaVersion: number;
     versionData: WinboatVersionData;
     appsSortOrder: string;
+    stageOutsideFiles: boolean;
+    alertRules: AlertRule[];
+    idleAction: IdleAction;
+    idleTimeoutMinutes: number;
+    guestShutdownTimeoutSeconds: number;
+    runtimeStopTimeoutSeconds: number;
+    autoSnapshots: boolean;
+    composeBackupKeepLast: number;
+    composeBackupMaxAgeDays: number;
+    logMaxSizeMB: number;
+    logMaxAgeDays: number;
+    logMaxFiles: number;
+    logCompression: boolean;
 };
 
 const currentVersion = new WinboatVersion(import.meta.env.VITE_APP_VERSION);
 const LEGACY_RUNTIME_KEYS = ["runtime", "container", "containerType"] as const;
 
+/**
+ * Creates the registry entry for the VM living directly in WINBOAT_DIR
+ */
+export function createDefaultVM(runtime: RuntimeKind, customApps: WinApp[] = []): WinboatVM {
+    return {
+        id: DEFAULT_VM_ID,
+        name: "Windows",
+        dataDir: WINBOAT_DIR,
+        containerName: getDefaultContainerName(runtime),
+        portOffset: 0,
+        storageFolder: "",
+        customApps,
+        mimeTypes: {},
+        launchProfiles: {},
+    };
+}
+
 function createDefaultConfig(): WinboatConfigObj {
     const defaultRuntime = RuntimeKinds.DOCKER;
 
@@ -89,7 +133,8 @@ function createDefaultConfig(): WinboatConfigObj {
         smartcardEnabled: false,
         rdpMonitoringEnabled: false,
         passedThroughDevices: [],
-        customApps: [],
+        vms: [createDefaultVM(defaultRuntime)],
+        activeVMId: DEFAULT_VM_ID,
         experimentalFeatures: false,
         advancedFeatures: false,
         multiMonitor: MultiMonitorMode.None,
@@ -103,6 +148,19 @@ function createDefaultConfig(): WinboatConfigObj {
             current: currentVersion,
         },
         appsSortOrder: "name",
+        stageOutsideFiles: false,
+        alertRules: createDefaultAlertRules(),
+        idleAction: IdleAction.None,
+        idleTimeoutMinutes: 30,
+        guestShutdownTimeoutSeconds: 120,
+        runtimeStopTimeoutSeconds: 30,
+        autoSnapshots: false,
+        composeBackupKeepLast: 10,
+        composeBackupMaxAgeDays: 90,
+        logMaxSizeMB: 5,
+        logMaxAgeDays: 30,
+        logMaxFiles: 5,
+        logCompression: true,
     };
 }
 
@@ -211,13 +269,40 @@ function migrateConfigV1ToV2(configObj: ConfigRecord): ConfigRecord {
     return configObj;
 }
 
+function migrateConfigV2ToV3(configObj: ConfigRecord): ConfigRecord {
+    const runtime = normalizeRuntimeKind(configObj.containerRuntime);
+    const customApps = Array.isArray(configObj.customApps) ? (configObj.customApps as WinApp[]) : [];
+
+    // The single pre-existing VM becomes the default entry, and takes the custom apps with it
+    configObj.vms = [createDefaultVM(runtime, customApps)];
+    configObj.activeVMId = DEFAULT_VM_ID;
+    delete configObj.customApps;
+
+    configObj.schemaVersion = 3;
+    return configObj;
+}
+
+function normalizeVMs(value: unknown, runtime: RuntimeKind): WinboatVM[] {
+    const vms = Array.isArray(value) ? (value as WinboatVM[]).filter(vm => vm && typeof vm.id === "string") : [];
+
+    if (!vms.some(vm => vm.id === DEFAULT_VM_ID)) {
+        vms.unshift(createDefaultVM(runtime));
+    }
+
+    return vms.map(vm => ({ ...createDefaultVM(runtime), ...vm }));
+}
+
 function normalizeConfigObject(configObj: ConfigRecord, schemaVersion = CONFIG_SCHEMA_VERSION): WinboatConfigObj {
     const defaults = createDefaultConfig();
     const runtime = normalizeRuntimeKind(configObj.containerRuntime, defaults.containerRuntime);
+    const vms = normalizeVMs(configObj.vms, runtime);
+    const activeVMId = vms.some(vm => vm.id === configObj.activeVMId) ? (configObj.activeVMId as string) : DEFAULT_VM_ID;
 
     return {
         ...defaults,
         ...(configObj as Partial<WinboatConfigObj>),
+        vms,
+        activeVMId,
         containerRuntime: runtime,
         guestArch: normalizeGuestArchitecture(configObj.guestArch, runtime),
         schemaVersion,
@@ -250,6 +335,9 @@ function migrateVersionedConfig(configObj: ConfigRecord): ConfigMigrationResult
             case 1:
                 workingConfig = migrateConfigV1ToV2(workingConfig);
                 break;
+            case 2:
+                workingConfig = migrateConfigV2ToV3(workingConfig);
+                break;
             default:
                 throw new Error(`No migration step available for schema version ${schemaVersion}`);
         }
@@ -305,6 +393,7 @@ export class WinboatConfig {
         }
 
         console.log("Reading current config", this.configData);
+        WinboatConfig.applyLogRotation(this.configData);
     }
 
     get config(): WinboatConfigObj {
@@ -314,6 +403,7 @@ export class WinboatConfig {
             set: (target, key, value: WinboatConfigObj) => {
                 const result = Reflect.set(target, key, value);
 
+                WinboatConfig.applyLogRotation(target);
                 WinboatConfig.writeConfigObject(target);
                 console.info("Wrote modified config to disk");
 
@@ -328,6 +418,15 @@ export class WinboatConfig {
         console.info("Wrote modified config to disk");
     }
 
+    private static applyLogRotation(configObj: WinboatConfigObj): void {
+        configureLogRotation({
+            maxSizeMB: configObj.logMaxSizeMB,
+            maxAgeDays: configObj.logMaxAgeDays,
+            maxFiles: configObj.logMaxFiles,
+            compress: configObj.logCompression,
+        });
+    }
+
     static writeConfigObject(configObj: WinboatConfigObj): void {
         fs.writeFileSync(WinboatConfig.configPath, JSON.stringify(configObj, null, 4), "utf-8");
     }
@@ -8,6 +8,8 @@ export const IS_APPLE_SILICON = IS_MACOS && process.arch === "arm64";
 
 // Should be {home}/.winboat
 export const WINBOAT_DIR = path.join(os.homedir(), ".winboat");
+// The VM that lives directly in WINBOAT_DIR, i.e. the one every install before multi-VM support created
+export const DEFAULT_VM_ID = "default";
 export const DEFAULT_HOMEBREW_DIR = path.join(os.homedir(), "../linuxbrew/.linuxbrew/bin");
 
 export function getDefaultExtraPathEntries(): string[] {
@@ -22,6 +24,28 @@ export function getDefaultExtraPathEntries(): string[] {
     return [];
 }
 
+/**
+ * @note A big chunk of our userbase uses WinBoat under an immutable distro through GearLever.
+ * In case it's the flatpak version of GearLever, PATH, and some other environment variables are stripped by default.
+ * We include the default homebrew bin directory for exactly this reason.
+ * It's not WinBoat's responsibility if the PATH envvar is incomplete, but in this case it affects a lot of users.
+ */
+export function extendPathWithDefaultEntries(): void {
+    const extraPathEntries = getDefaultExtraPathEntries();
+    if (extraPathEntries.length === 0) return;
+
+    const existingPath = process.env.PATH ?? "";
+    const pathEntries = existingPath.split(path.delimiter).filter(Boolean);
+
+    for (const extraPath of extraPathEntries) {
+        if (!pathEntries.includes(extraPath)) {
+            pathEntries.push(extraPath);
+        }
+    }
+
+    process.env.PATH = pathEntries.join(path.delimiter);
+}
+
 export function getHostOSLabel(): string {
     if (IS_LINUX) return "Linux";
     if (IS_MACOS) return "macOS";
@@ -1,4 +1,4 @@
-import { PortEntryProtocol } from "../../../types";
+import { PortEntryProtocol, type WinboatVM } from "../../../types";
 import { ContainerManager } from "./container";
 import { DockerContainer, DockerSpecs } from "./docker";
 import { PodmanContainer, PodmanSpecs } from "./podman";
@@ -63,9 +63,10 @@ export async function getContainerSpecs<T extends ContainerRuntimes>(type: T): P
 
 export function createContainer<T extends ContainerRuntimes>(
     type: T,
-    ...params: ConstructorParameters<(typeof ContainerImplementations)[T]>
-) {
-    return new ContainerImplementations[type](...(params as []));
+    vm: WinboatVM,
+): InstanceType<(typeof ContainerImplementations)[T]> {
+    const Implementation: new (vm: WinboatVM) => ContainerManager = ContainerImplementations[type];
+    return new Implementation(vm) as InstanceType<(typeof ContainerImplementations)[T]>;
 }
 
 export function getActiveHostPort(
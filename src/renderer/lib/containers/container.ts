@@ -1,15 +1,33 @@
-import { ComposeConfig } from "../../../types";
-import { WINBOAT_DIR } from "../constants";
+import { ComposeConfig, type WinboatVM } from "../../../types";
+import { DEFAULT_VM_ID, WINBOAT_DIR } from "../constants";
 import { createLogger } from "../../utils/log";
-import { ComposePortEntry } from "../../utils/port";
+import { ComposePortEntry, Range } from "../../utils/port";
+import { createNanoEvents, type Emitter } from "nanoevents";
+import { type ChildProcess } from "node:child_process";
+import { getVMPassword, PASSWORD_ENV_VAR, PASSWORD_PLACEHOLDER } from "../secrets";
+import YAML from "yaml";
 
+const fs: typeof import("node:fs") = require("node:fs");
+const os: typeof import("node:os") = require("node:os");
 const path: typeof import("node:path") = require("node:path");
+const { spawn }: typeof import("node:child_process") = require("node:child_process");
+const readline: typeof import("node:readline") = require("node:readline");
+const process: typeof import("node:process") = require("node:process");
 
 export const containerLogger = createLogger(path.join(WINBOAT_DIR, "container.log"));
 
 export type ComposeDirection = "up" | "down";
 export type ComposeArguments = "--no-start";
-export type ContainerAction = "start" | "stop" | "pause" | "unpause" | "restart";
+export type ContainerAction = "start" | "stop" | "pause" | "unpause" | "restart" | "kill";
+
+// Where QEMU serves QMP inside the guest container, see CommonPorts
+const GUEST_QMP_PORT = 7149;
+
+export interface ContainerEvents {
+    statusChanged: (status: ContainerStatus) => void;
+    // The event stream ended on its own, consumers have to fall back to polling
+    streamClosed: () => void;
+}
 
 export abstract class ContainerManager {
     abstract readonly defaultCompose: ComposeConfig;
@@ -26,7 +44,200 @@ export abstract class ContainerManager {
     abstract getStatus(): Promise<ContainerStatus>;
     abstract exists(): Promise<boolean>;
 
-    abstract get containerName(): string;
+    /**
+     * Starts reporting status changes through {@link events}
+     * @returns Whether the stream could be started, if not the status has to be polled
+     */
+    abstract startEventStream(): Promise<boolean>;
+    abstract stopEventStream(): void;
+
+    readonly events: Emitter<ContainerEvents> = createNanoEvents<ContainerEvents>();
+    #eventProcess: ChildProcess | null = null;
+    // Kept as one function, so that restarting the stream doesn't pile up listeners
+    readonly #stopOnUnload = () => this.stopEventStream();
+
+    constructor(readonly vm: WinboatVM) {}
+
+    get containerName(): string {
+        return this.vm.containerName;
+    }
+
+    /**
+     * Returns the host port QMP is reachable at, or `undefined` if it isn't exposed (or the ports aren't cached yet)
+     */
+    getQMPPort(): number | undefined {
+        const mapping = this.cachedPortMappings?.find(
+            mapping => mapping.container === GUEST_QMP_PORT && mapping.protocol === "tcp",
+        );
+
+        return typeof mapping?.host === "number" ? mapping.host : undefined;
+    }
+
+    /**
+     * Maps a path as QEMU sees it to the host, or returns `null` if it isn't in a folder bound from the host.
+     * QEMU runs in the container by default, so the compose file's bind mounts apply
+     */
+    resolveHostPath(qemuPath: string): string | null {
+        const compose = YAML.parse(fs.readFileSync(this.composeFilePath, "utf-8")) as ComposeConfig;
+
+        for (const volume of compose.services.windows.volumes) {
+            const [source, target] = volume.split(":");
+            // Named volumes (e.g. `data:/storage`) live wherever the runtime keeps them
+            if (!target || !/^(\/|\.|~|\$\{HOME\})/.test(source)) continue;
+
+            const relativePath = path.posix.relative(target, qemuPath);
+            if (relativePath.startsWith("..") || path.posix.isAbsolute(relativePath)) continue;
+
+            const hostSource = source.replace("${HOME}", os.homedir()).replace(/^~/, os.homedir());
+            return path.join(path.resolve(path.dirname(this.composeFilePath), hostSource), relativePath);
+        }
+
+        return null;
+    }
+
+    /**
+     * Serializes a compose file for writing to disk. The password is replaced by a reference to
+     * {@link PASSWORD_ENV_VAR}, since it lives in the secret store, see {@link getComposeEnv}
+     */
+    stringifyCompose(compose: ComposeConfig): string {
+        // Building the document copies the compose, so this works on reactive proxies too, unlike structuredClone
+        const document = new YAML.Document(compose);
+        document.setIn(["services", "windows", "environment", "PASSWORD"], PASSWORD_PLACEHOLDER);
+
+        return document.toString({ nullStr: "" });
+    }
+
+    /**
+     * Returns the environment compose commands run with, which provides the password the compose file references
+     */
+    protected async getComposeEnv(): Promise<Record<string, string>> {
+        const env = { ...process.env } as Record<string, string>;
+        const password = await getVMPassword(this.vm);
+
+        if (password !== null) {
+            env[PASSWORD_ENV_VAR] = password;
+        } else {
+            containerLogger.warn(`No password stored for VM '${this.vm.id}', '${PASSWORD_ENV_VAR}' stays unset`);
+        }
+
+        return env;
+    }
+
+    /**
+     * Adjusts a runtime's default compose so that it doesn't collide with the other registered VMs,
+     * i.e. gives it its own project name, container name and host port range
+     */
+    protected applyVM(compose: ComposeConfig): ComposeConfig {
+        if (this.vm.id !== DEFAULT_VM_ID) {
+            compose.name = `${compose.name}-${this.vm.id}`;
+        }
+
+        compose.services.windows.container_name = this.vm.containerName;
+
+        if (this.vm.portOffset) {
+            compose.services.windows.ports = compose.services.windows.ports.map(port => {
+                if (typeof port !== "string") return port;
+
+                const entry = new ComposePortEntry(port);
+                entry.host =
+                    typeof entry.host === "number"
+                        ? entry.host + this.vm.portOffset
+                        : new Range(entry.host.start + this.vm.portOffset, entry.host.end + this.vm.portOffset);
+
+                return entry.entry;
+            });
+        }
+
+        return compose;
+    }
+
+    /**
+     * Spawns a long-running `events` command of a container CLI that prints one JSON object per line
+     * @param args The arguments of the `events` command
+     * @param getAction Extracts the lifecycle action (e.g. `start`, `die`) from an event
+     */
+    protected async startCLIEventStream(
+        args: string[],
+        getAction: (event: Record<string, any>) => string | undefined,
+    ): Promise<boolean> {
+        if (this.#eventProcess) return true;
+
+        let eventProcess: ChildProcess;
+        try {
+            eventProcess = spawn(this.executableAlias, args, { stdio: ["ignore", "pipe", "pipe"] });
+        } catch (e) {
+            containerLogger.error(`Failed to start event stream of '${this.containerName}'`);
+            containerLogger.error(e);
+            return false;
+        }
+
+        // Set right away, so that a call while spawning doesn't start a second stream
+        this.#eventProcess = eventProcess;
+
+        // A missing binary is only reported through an asynchronous 'error', so wait until the process is up
+        const spawned = await new Promise<boolean>(resolve => {
+            eventProcess.once("spawn", () => resolve(true));
+            eventProcess.once("error", e => {
+                containerLogger.error(`Failed to start event stream of '${this.containerName}': ${e.message}`);
+                resolve(false);
+            });
+        });
+
+        if (!spawned) {
+            if (this.#eventProcess === eventProcess) this.#eventProcess = null;
+            return false;
+        }
+
+        containerLogger.info(
+            `Streaming events of '${this.containerName}' from '${this.executableAlias} ${args.join(" ")}'`,
+        );
+
+        readline.createInterface({ input: eventProcess.stdout! }).on("line", line => {
+            try {
+                const action = getAction(JSON.parse(line));
+                // Actions may carry details, e.g. 'exec_start: cmd.exe'
+                const status = action ? EVENT_ACTION_STATUS[action.split(":")[0]] : undefined;
+
+                if (status) {
+                    this.events.emit("statusChanged", status);
+                }
+            } catch (e) {
+                containerLogger.warn(`Failed to parse container event '${line}'`);
+                containerLogger.warn(e);
+            }
+        });
+
+        eventProcess.stderr!.on("data", (data: Buffer) =>
+            containerLogger.warn(`Event stream: ${data.toString().trim()}`),
+        );
+
+        const onClose = (reason: string) => {
+            if (this.#eventProcess !== eventProcess) return;
+
+            this.#eventProcess = null;
+            window.removeEventListener("beforeunload", this.#stopOnUnload);
+            containerLogger.warn(`Event stream of '${this.containerName}' closed (${reason})`);
+            this.events.emit("streamClosed");
+        };
+
+        eventProcess.on("error", e => onClose(e.message));
+        eventProcess.on("exit", (code, signal) => onClose(`code ${code}, signal ${signal}`));
+
+        // Don't leave the events process behind once the window goes away
+        window.addEventListener("beforeunload", this.#stopOnUnload);
+
+        return true;
+    }
+
+    protected stopCLIEventStream() {
+        const eventProcess = this.#eventProcess;
+        if (!eventProcess) return;
+
+        // Unset first, so that the exit isn't reported as the stream dying
+        this.#eventProcess = null;
+        window.removeEventListener("beforeunload", this.#stopOnUnload);
+        eventProcess.kill();
+    }
 
     // static "abstract" function
     static async _getSpecs(): Promise<any> {
@@ -41,3 +252,17 @@ export enum ContainerStatus {
     EXITED = "Exited",
     UNKNOWN = "Unknown",
 }
+
+// Maps the lifecycle actions reported by `docker events` and `podman events` to statuses
+const EVENT_ACTION_STATUS: Record<string, ContainerStatus> = {
+    create: ContainerStatus.CREATED,
+    start: ContainerStatus.RUNNING,
+    restart: ContainerStatus.RUNNING,
+    unpause: ContainerStatus.RUNNING,
+    pause: ContainerStatus.PAUSED,
+    die: ContainerStatus.EXITED,
+    died: ContainerStatus.EXITED,
+    stop: ContainerStatus.EXITED,
+    destroy: ContainerStatus.UNKNOWN,
+    remove: ContainerStatus.UNKNOWN,
+};
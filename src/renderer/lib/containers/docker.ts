@@ -1,8 +1,8 @@
-import { ComposeConfig } from "../../../types";
+import { ComposeConfig, type WinboatVM } from "../../../types";
 import { createDefaultDockerCompose } from "../../data/docker";
 import { capitalizeFirstLetter } from "../../utils/capitalize";
 import { ComposePortEntry } from "../../utils/port";
-import { IS_LINUX, WINBOAT_DIR } from "../constants";
+import { IS_LINUX } from "../constants";
 import {
     ComposeArguments,
     ComposeDirection,
@@ -11,7 +11,6 @@ import {
     ContainerManager,
     ContainerStatus,
 } from "./container";
-import YAML from "yaml";
 import { execFileAsync, stringifyExecFile } from "../exec-helper";
 
 const path: typeof import("node:path") = require("node:path");
@@ -25,18 +24,18 @@ export type DockerSpecs = {
 };
 
 export class DockerContainer extends ContainerManager {
-    defaultCompose = createDefaultDockerCompose();
-    composeFilePath = path.join(WINBOAT_DIR, "docker-compose.yml"); // TODO: If/when we support multiple VM's we need to put this in the constructor
+    defaultCompose = this.applyVM(createDefaultDockerCompose());
+    composeFilePath = path.join(this.vm.dataDir, "docker-compose.yml");
     executableAlias = "docker";
 
     cachedPortMappings: ComposePortEntry[] | null = null;
 
-    constructor() {
-        super();
+    constructor(vm: WinboatVM) {
+        super(vm);
     }
 
     writeCompose(compose: ComposeConfig): void {
-        const composeContent = YAML.stringify(compose, { nullStr: "" });
+        const composeContent = this.stringifyCompose(compose);
         fs.writeFileSync(this.composeFilePath, composeContent, { encoding: "utf-8" });
 
         containerLogger.info(`Wrote to compose file at: ${this.composeFilePath}`);
@@ -52,7 +51,7 @@ export class DockerContainer extends ContainerManager {
         }
 
         try {
-            const { stderr } = await execFileAsync(this.executableAlias, args);
+            const { stderr } = await execFileAsync(this.executableAlias, args, { env: await this.getComposeEnv() });
             if (stderr) {
                 containerLogger.error(stderr);
             }
@@ -132,11 +131,21 @@ export class DockerContainer extends ContainerManager {
         }
     }
 
+    async startEventStream(): Promise<boolean> {
+        const args = ["events", "--filter", `container=${this.containerName}`, "--filter", "type=container"];
+        // Newer Docker versions report the action as 'Action', older ones as 'status'
+        return this.startCLIEventStream([...args, "--format", "{{json .}}"], event => event.Action ?? event.status);
+    }
+
+    stopEventStream(): void {
+        this.stopCLIEventStream();
+    }
+
     async exists(): Promise<boolean> {
         const args = ["ps", "-a", "--filter", `name=${this.containerName}`, "--format", "{{.Names}}"];
         try {
             const { stdout: exists } = await execFileAsync(this.executableAlias, args);
-            return exists.includes("WinBoat");
+            return exists.split("\n").some(name => name.trim() === this.containerName);
         } catch (e) {
             containerLogger.error(
                 `Failed to get container status, is ${capitalizeFirstLetter(this.executableAlias)} installed?`,
@@ -146,10 +155,6 @@ export class DockerContainer extends ContainerManager {
         }
     }
 
-    get containerName(): string {
-        return this.defaultCompose.services.windows.container_name; // TODO: investigate whether we should use the compose on disk
-    }
-
     static override async _getSpecs(): Promise<DockerSpecs> {
         let specs: DockerSpecs = {
             dockerInstalled: false,
@@ -1,6 +1,5 @@
-import { ComposeConfig } from "../../../types";
+import { ComposeConfig, type WinboatVM } from "../../../types";
 import { createDefaultPodmanCompose } from "../../data/podman";
-import { WINBOAT_DIR } from "../constants";
 import {
     ComposeArguments,
     ComposeDirection,
@@ -9,7 +8,6 @@ import {
     ContainerManager,
     ContainerStatus,
 } from "./container";
-import YAML from "yaml";
 import { capitalizeFirstLetter } from "../../utils/capitalize";
 import { ComposePortEntry } from "../../utils/port";
 import { concatEnv, execFileAsync, stringifyExecFile } from "../exec-helper";
@@ -47,18 +45,18 @@ type PodmanInfo = {
 const COMPOSE_ENV_VARS = { PODMAN_COMPOSE_PROVIDER: "podman-compose", PODMAN_COMPOSE_WARNING_LOGS: "false" };
 
 export class PodmanContainer extends ContainerManager {
-    defaultCompose = createDefaultPodmanCompose();
-    composeFilePath = path.join(WINBOAT_DIR, "podman-compose.yml");
+    defaultCompose = this.applyVM(createDefaultPodmanCompose());
+    composeFilePath = path.join(this.vm.dataDir, "podman-compose.yml");
     executableAlias = "podman";
 
     cachedPortMappings: ComposePortEntry[] | null = null;
 
-    constructor() {
-        super();
+    constructor(vm: WinboatVM) {
+        super(vm);
     }
 
     writeCompose(compose: ComposeConfig): void {
-        const composeContent = YAML.stringify(compose, { nullStr: "" });
+        const composeContent = this.stringifyCompose(compose);
         fs.writeFileSync(this.composeFilePath, composeContent, { encoding: "utf-8" });
 
         containerLogger.info(`Wrote to compose file at: ${this.composeFilePath}`);
@@ -75,7 +73,7 @@ export class PodmanContainer extends ContainerManager {
 
         try {
             const { stderr } = await execFileAsync(this.executableAlias, args, {
-                env: concatEnv(process.env as { [key: string]: string }, COMPOSE_ENV_VARS),
+                env: concatEnv(await this.getComposeEnv(), COMPOSE_ENV_VARS),
             });
             if (stderr) {
                 containerLogger.error(stderr);
@@ -160,11 +158,20 @@ export class PodmanContainer extends ContainerManager {
         }
     }
 
+    async startEventStream(): Promise<boolean> {
+        const args = ["events", "--filter", `container=${this.containerName}`, "--filter", "type=container"];
+        return this.startCLIEventStream([...args, "--format", "json"], event => event.Status);
+    }
+
+    stopEventStream(): void {
+        this.stopCLIEventStream();
+    }
+
     async exists(): Promise<boolean> {
         const args = ["ps", "-a", "--filter", `name=${this.containerName}`, "--format", "{{.Names}}"];
         try {
             const { stdout: exists } = await execFileAsync(this.executableAlias, args);
-            return exists.includes(this.containerName);
+            return exists.split("\n").some(name => name.trim() === this.containerName);
         } catch (e) {
             containerLogger.error(
                 `Failed to get container status, is ${capitalizeFirstLetter(this.executableAlias)} installed?`,
@@ -174,10 +181,6 @@ export class PodmanContainer extends ContainerManager {
         }
     }
 
-    get containerName(): string {
-        return this.defaultCompose.services.windows.container_name; // TODO: investigate whether we should use the compose on disk
-    }
-
     static override async _getSpecs(): Promise<PodmanSpecs> {
         let specs: PodmanSpecs = {
             podmanInstalled: false,
@@ -1,9 +1,9 @@
-import { ComposeConfig } from "../../../types";
+import { ComposeConfig, type WinboatVM } from "../../../types";
 import { QEMU_NATIVE_DEFAULT_COMPOSE } from "../../data/qemu-native";
 import { ComposeArguments, ComposeDirection, ContainerAction, ContainerManager, ContainerStatus } from "./container";
 import { ComposePortEntry } from "../../utils/port";
+import { parseDiskSizeGB } from "../../utils/diskSize";
 import { containerLogger } from "./container";
-import { WINBOAT_DIR } from "../constants";
 import YAML from "yaml";
 
 const fs: typeof import("node:fs") = require("node:fs");
@@ -32,6 +32,20 @@ type QemuRuntimeState = {
     stderrLogPath: string;
 };
 
+// QEMU serves QMP on the host directly, there's no container to map ports through.
+// Like the forwarded ports, every VM serves it at this port plus its port offset
+export const QEMU_NATIVE_QMP_PORT = 7149;
+
+// QEMU's own output, which doesn't go through a logger
+export const QEMU_NATIVE_STDOUT_LOG = "qemu.stdout.log";
+export const QEMU_NATIVE_STDERR_LOG = "qemu.stderr.log";
+
+// QEMU only serves one QMP client at a time, and that one belongs to QMPManager, so liveness comes from the pid
+const PID_CHECK_INTERVAL_MS = 5000;
+
+// Used if the compose's DISK_SIZE can't be parsed
+const DEFAULT_DISK_GIB = 64;
+
 const QEMU_BIN_CANDIDATES = ["/opt/homebrew/bin/qemu-system-aarch64", "/usr/local/bin/qemu-system-aarch64", "qemu-system-aarch64"];
 const QEMU_IMG_CANDIDATES = ["/opt/homebrew/bin/qemu-img", "/usr/local/bin/qemu-img", "qemu-img"];
 
@@ -45,6 +59,13 @@ const EDK2_VARS_CANDIDATES = [
     "/usr/local/share/qemu/edk2-arm-vars.fd",
 ];
 
+/**
+ * Holds the VM's firmware variables, pid file and QEMU's output
+ */
+export function getQemuNativeRuntimeDir(vm: WinboatVM): string {
+    return path.join(vm.dataDir, "qemu-native");
+}
+
 function parseGibToken(token: string | undefined, fallbackGiB: number): number {
     if (!token) return fallbackGiB;
     const parsed = Number.parseInt(token.replace(/[^0-9]/g, ""), 10);
@@ -113,24 +134,23 @@ function parseVolumeMapping(volume: string): VolumeMapping | null {
 }
 
 export class QemuNativeContainer extends ContainerManager {
-    defaultCompose = structuredClone(QEMU_NATIVE_DEFAULT_COMPOSE);
-    composeFilePath = path.join(WINBOAT_DIR, "qemu-native-compose.yml");
+    defaultCompose = this.applyVM(structuredClone(QEMU_NATIVE_DEFAULT_COMPOSE));
+    composeFilePath = path.join(this.vm.dataDir, "qemu-native-compose.yml");
     executableAlias = "qemu-system-aarch64";
     cachedPortMappings: ComposePortEntry[] | null = null;
 
-    readonly #runtimeDir = path.join(WINBOAT_DIR, "qemu-native");
-
-    constructor() {
-        super();
-    }
+    readonly #runtimeDir = getQemuNativeRuntimeDir(this.vm);
+    #pidWatcher: ReturnType<typeof fs.watch> | null = null;
+    #pidCheckInterval: NodeJS.Timeout | null = null;
+    #lastStatus: ContainerStatus | null = null;
 
-    get containerName(): string {
-        return this.defaultCompose.services.windows.container_name;
+    constructor(vm: WinboatVM) {
+        super(vm);
     }
 
     writeCompose(compose: ComposeConfig): void {
         this.#ensureRuntimeDir();
-        fs.writeFileSync(this.composeFilePath, YAML.stringify(compose, { nullStr: "" }), "utf8");
+        fs.writeFileSync(this.composeFilePath, this.stringifyCompose(compose), "utf8");
         containerLogger.info(`[QemuNative] wrote runtime compose to ${this.composeFilePath}`);
     }
 
@@ -167,6 +187,9 @@ export class QemuNativeContainer extends ContainerManager {
                 if (pid && pidIsAlive(pid)) process.kill(pid, "SIGCONT");
                 break;
             }
+            case "kill":
+                await this.#stopVM(0);
+                break;
         }
     }
 
@@ -210,6 +233,17 @@ export class QemuNativeContainer extends ContainerManager {
         }
     }
 
+    getQMPPort(): number | undefined {
+        return QEMU_NATIVE_QMP_PORT + this.vm.portOffset;
+    }
+
+    /**
+     * QEMU runs on the host itself, so its paths are host paths
+     */
+    resolveHostPath(qemuPath: string): string | null {
+        return qemuPath;
+    }
+
     async getStatus(): Promise<ContainerStatus> {
         const pid = this.#readPid();
         if (pid && pidIsAlive(pid)) {
@@ -223,6 +257,53 @@ export class QemuNativeContainer extends ContainerManager {
         return fs.existsSync(this.composeFilePath);
     }
 
+    async startEventStream(): Promise<boolean> {
+        if (this.#pidWatcher) return true;
+
+        this.#ensureRuntimeDir();
+
+        try {
+            // The pid file appears and disappears with the VM, even if another WinBoat process (e.g. the CLI) manages it
+            this.#pidWatcher = fs.watch(this.#runtimeDir, (_event, filename) => {
+                if (filename === "qemu.pid") this.#emitStatus();
+            });
+        } catch (e) {
+            containerLogger.error("[QemuNative] failed to watch the runtime directory");
+            containerLogger.error(e);
+            return false;
+        }
+
+        this.#pidWatcher.on("error", e => {
+            containerLogger.error("[QemuNative] runtime directory watcher failed");
+            containerLogger.error(e);
+            this.stopEventStream();
+            this.events.emit("streamClosed");
+        });
+
+        // Checking a pid is a plain syscall, so unlike 'docker inspect' this doesn't spawn anything
+        this.#pidCheckInterval = setInterval(() => this.#emitStatus(), PID_CHECK_INTERVAL_MS);
+
+        return true;
+    }
+
+    stopEventStream(): void {
+        this.#pidWatcher?.close();
+        this.#pidWatcher = null;
+
+        if (this.#pidCheckInterval) {
+            clearInterval(this.#pidCheckInterval);
+            this.#pidCheckInterval = null;
+        }
+    }
+
+    async #emitStatus() {
+        const status = await this.getStatus();
+        if (status === this.#lastStatus) return;
+
+        this.#lastStatus = status;
+        this.events.emit("statusChanged", status);
+    }
+
     async #startVM(): Promise<void> {
         if (await this.getStatus() === ContainerStatus.RUNNING) {
             containerLogger.info("[QemuNative] VM already running");
@@ -250,6 +331,7 @@ export class QemuNativeContainer extends ContainerManager {
             stdio: ["ignore", stdoutFd, stderrFd],
         });
         child.unref();
+        child.once("exit", () => this.#emitStatus());
         fs.closeSync(stdoutFd);
         fs.closeSync(stderrFd);
 
@@ -257,11 +339,11 @@ export class QemuNativeContainer extends ContainerManager {
         await this.port();
     }
 
-    async #stopVM(): Promise<void> {
+    async #stopVM(graceMs?: number): Promise<void> {
         const pid = this.#readPid();
         if (!pid) return;
 
-        await killPidWithGrace(pid);
+        await killPidWithGrace(pid, graceMs);
         const pidPath = path.join(this.#runtimeDir, "qemu.pid");
         if (fs.existsSync(pidPath)) {
             fs.rmSync(pidPath, { force: true });
@@ -297,7 +379,7 @@ export class QemuNativeContainer extends ContainerManager {
             "-device",
             "virtio-net-pci,netdev=net0",
             "-qmp",
-            "tcp:127.0.0.1:7149,server,wait=off",
+            `tcp:127.0.0.1:${this.getQMPPort()},server,wait=off`,
             "-display",
             "none",
             "-monitor",
@@ -339,12 +421,26 @@ export class QemuNativeContainer extends ContainerManager {
         }
     }
 
+    /**
+     * Creates the disk, or grows it if DISK_SIZE was raised, like the dockur image does when booting
+     */
     async #ensureDisk(state: QemuRuntimeState, compose: ComposeConfig): Promise<void> {
-        if (fs.existsSync(state.vmDiskPath)) return;
+        const diskGiB = parseDiskSizeGB(compose.services.windows.environment.DISK_SIZE) || DEFAULT_DISK_GIB;
 
-        fs.mkdirSync(path.dirname(state.vmDiskPath), { recursive: true });
-        const diskGiB = parseGibToken(compose.services.windows.environment.DISK_SIZE, 64);
-        await execFileAsync(state.qemuImgBinary, ["create", "-f", "qcow2", state.vmDiskPath, `${diskGiB}G`]);
+        if (!fs.existsSync(state.vmDiskPath)) {
+            fs.mkdirSync(path.dirname(state.vmDiskPath), { recursive: true });
+            await execFileAsync(state.qemuImgBinary, ["create", "-f", "qcow2", state.vmDiskPath, `${diskGiB}G`]);
+            return;
+        }
+
+        const { stdout } = await execFileAsync(state.qemuImgBinary, ["info", "--output=json", state.vmDiskPath]);
+        const virtualSize: number = JSON.parse(stdout)["virtual-size"];
+
+        // Disks are never shrunk, that would cut off the guest's partitions
+        if (virtualSize < diskGiB * 1024 ** 3) {
+            await execFileAsync(state.qemuImgBinary, ["resize", state.vmDiskPath, `${diskGiB}G`]);
+            containerLogger.info(`[QemuNative] grew ${state.vmDiskPath} to ${diskGiB}G`);
+        }
     }
 
     #ensureFirmwareVars(state: QemuRuntimeState): void {
@@ -409,8 +505,8 @@ export class QemuNativeContainer extends ContainerManager {
             vmDiskPath,
             vmVarsPath: path.join(this.#runtimeDir, "edk2-vars.fd"),
             pidPath: path.join(this.#runtimeDir, "qemu.pid"),
-            stdoutLogPath: path.join(this.#runtimeDir, "qemu.stdout.log"),
-            stderrLogPath: path.join(this.#runtimeDir, "qemu.stderr.log"),
+            stdoutLogPath: path.join(this.#runtimeDir, QEMU_NATIVE_STDOUT_LOG),
+            stderrLogPath: path.join(this.#runtimeDir, QEMU_NATIVE_STDERR_LOG),
         };
     }
 
@@ -0,0 +1,205 @@
+import { type GuestServerVersion, type Specs } from "../../types";
+import { getFreeRDP } from "../utils/getFreeRDP";
+import { createLogger } from "../utils/log";
+import { listLogFiles, readLogFile, redact, REDACTED } from "../utils/redact";
+import { createZip, type ZipEntry } from "../utils/zip";
+import { WinboatConfig } from "./config";
+import { WINBOAT_DIR } from "./constants";
+import { getQemuNativeRuntimeDir, QEMU_NATIVE_STDERR_LOG, QEMU_NATIVE_STDOUT_LOG } from "./containers/qemu-native";
+import { type QMPStatusInfo } from "./qmp";
+import { getRuntimeCapabilityMatrix, type RuntimeCapabilities } from "./runtimes/capabilities";
+import { getRuntimeSpecs, RuntimeStatus, type RuntimeKind, type RuntimeSpecs } from "./runtimes/common";
+import { getSpecs } from "./specs";
+import { getVMPassword } from "./secrets";
+import { getVMs } from "./vms";
+import { Winboat } from "./winboat";
+
+const fs: typeof import("fs") = require("node:fs");
+const os: typeof import("os") = require("node:os");
+const path: typeof import("path") = require("node:path");
+const process: typeof import("process") = require("node:process");
+const YAML: typeof import("yaml") = require("yaml");
+
+const logger = createLogger(path.join(WINBOAT_DIR, "diagnostics.log"));
+
+// Bumped whenever the layout of the bundle changes in a way tooling reading it has to know about
+const DIAGNOSTICS_FORMAT_VERSION = 1;
+
+const SUMMARY_FILE = "summary.json";
+const CONFIG_FILE = "winboat.config.json";
+const COMPOSE_FILE = "docker-compose.yml";
+const LOGS_DIR = "logs";
+
+export type DiagnosticsSummary = {
+    formatVersion: number;
+    createdAt: string;
+    winboatVersion: string;
+    host: {
+        platform: NodeJS.Platform;
+        arch: string;
+        release: string;
+    };
+    vm: {
+        id: string;
+        name: string;
+        containerName: string;
+        portOffset: number;
+    };
+    runtime: RuntimeKind;
+    containerStatus: RuntimeStatus;
+    // Everything below is `null` if it couldn't be collected, see `errors` for why
+    guestServerVersion: GuestServerVersion | null;
+    freeRDPVersion: string | null;
+    specs: Specs | null;
+    runtimeSpecs: RuntimeSpecs | null;
+    capabilityMatrix: Record<RuntimeKind, RuntimeCapabilities> | null;
+    portMappings: string[] | null;
+    qmpStatus: QMPStatusInfo | null;
+    // Paths of every other file in the bundle
+    files: string[];
+    // Why sections couldn't be collected, keyed by section
+    errors: { [section: string]: string };
+};
+
+/**
+ * Reports which part of the bundle is currently being collected
+ */
+export type DiagnosticsProgress = (stage: string) => void;
+
+export function getDefaultDiagnosticsFileName(date = new Date()): string {
+    return `winboat-diagnostics-${date.toISOString().replace(/[:.]/g, "-")}.zip`;
+}
+
+/**
+ * Collects what's needed to look into a bug report into a zip archive at `archivePath`: the logs, the config,
+ * the compose file, host and runtime specs and the state of the guest, FreeRDP and QMP. Secrets are redacted
+ * from everything, and parts that can't be collected (e.g. the guest while the VM is off) are noted in the
+ * summary instead of failing the whole bundle
+ * @returns The summary that was written to the root of the archive
+ */
+export async function collectDiagnostics(
+    winboat: Winboat,
+    archivePath: string,
+    onProgress: DiagnosticsProgress = () => {},
+): Promise<DiagnosticsSummary> {
+    const wbConfig = WinboatConfig.getInstance();
+    const entries: ZipEntry[] = [];
+    const errors: DiagnosticsSummary["errors"] = {};
+
+    const collect = async <T>(section: string, fn: () => Promise<T> | T): Promise<T | null> => {
+        onProgress(section);
+        try {
+            return await fn();
+        } catch (e) {
+            logger.warn(`Failed to collect ${section}`);
+            logger.warn(e);
+            errors[section] = e instanceof Error ? e.message : String(e);
+            return null;
+        }
+    };
+
+    // Looking the passwords up registers them as known secrets, so that they're redacted verbatim as well
+    await collect("Passwords", async () => {
+        for (const vm of getVMs()) {
+            await getVMPassword(vm);
+        }
+    });
+
+    await collect("Logs", () => {
+        for (const file of listLogFiles(WINBOAT_DIR)) {
+            // Rotated logs are decompressed, since the archive is compressed anyway
+            const name = path.basename(file).replace(/\.gz$/, "");
+            entries.push({ name: `${LOGS_DIR}/${name}`, data: redact(readLogFile(file)) });
+        }
+    });
+
+    await collect("QEMU logs", () => {
+        // QEMU's output under the native runtime doesn't go through a logger, so it's kept next to each VM instead
+        for (const vm of getVMs()) {
+            for (const fileName of [QEMU_NATIVE_STDOUT_LOG, QEMU_NATIVE_STDERR_LOG]) {
+                const file = path.join(getQemuNativeRuntimeDir(vm), fileName);
+                if (!fs.existsSync(file)) continue;
+
+                entries.push({ name: `${LOGS_DIR}/qemu-native/${vm.id}/${fileName}`, data: redact(readLogFile(file)) });
+            }
+        }
+    });
+
+    await collect("Config", () => {
+        entries.push({
+            name: CONFIG_FILE,
+            data: redact(fs.readFileSync(path.join(WINBOAT_DIR, CONFIG_FILE), "utf-8")),
+        });
+    });
+
+    await collect("Compose file", () => {
+        const compose = Winboat.readCompose(winboat.containerMgr!.composeFilePath);
+        const environment = compose.services.windows.environment;
+        if (environment && "PASSWORD" in environment) {
+            environment.PASSWORD = REDACTED;
+        }
+
+        entries.push({ name: COMPOSE_FILE, data: redact(YAML.stringify(compose)) });
+    });
+
+    const summary: DiagnosticsSummary = {
+        formatVersion: DIAGNOSTICS_FORMAT_VERSION,
+        createdAt: new Date().toISOString(),
+        winboatVersion: import.meta.env.VITE_APP_VERSION,
+        host: {
+            platform: process.platform,
+            arch: process.arch,
+            release: os.release(),
+        },
+        vm: {
+            id: winboat.vm.id,
+            name: winboat.vm.name,
+            containerName: winboat.vm.containerName,
+            portOffset: winboat.vm.portOffset,
+        },
+        runtime: wbConfig.config.containerRuntime,
+        containerStatus: winboat.containerStatus.value,
+        specs: await collect("Specs", () => getSpecs()),
+        runtimeSpecs: await collect("Runtime specs", () => getRuntimeSpecs(wbConfig.config.containerRuntime)),
+        capabilityMatrix: await collect("Capability matrix", () => getRuntimeCapabilityMatrix()),
+        freeRDPVersion: await collect("FreeRDP version", async () => {
+            const freeRDP = await getFreeRDP();
+            if (!freeRDP) throw new Error("FreeRDP 3.x isn't installed");
+
+            return (await freeRDP.exec(["--version"])).stdout.trim();
+        }),
+        guestServerVersion: await collect("Guest server version", () => {
+            if (winboat.containerStatus.value !== RuntimeStatus.RUNNING) {
+                throw new Error(`The container is ${winboat.containerStatus.value}`);
+            }
+
+            return winboat.guestApi.getVersion();
+        }),
+        portMappings: await collect("Port mappings", () => {
+            const mappings = winboat.containerMgr!.cachedPortMappings;
+            if (!mappings) throw new Error("The port mappings haven't been read yet");
+
+            return mappings.map(mapping => mapping.entry);
+        }),
+        qmpStatus: await collect("QMP status", async () => {
+            const status = await winboat.queryQMPStatus();
+            if (!status) throw new Error("QMP isn't reachable");
+
+            return status;
+        }),
+        files: entries.map(entry => entry.name),
+        errors,
+    };
+
+    onProgress("Writing archive");
+    // The summary goes first, so it's what shows up on top when opening the archive
+    const zip = createZip([{ name: SUMMARY_FILE, data: redact(JSON.stringify(summary, null, 4)) }, ...entries]);
+    fs.writeFileSync(archivePath, zip);
+
+    logger.info(`Wrote diagnostics for VM '${winboat.vm.id}' to ${archivePath}`);
+    if (Object.keys(errors).length) {
+        logger.info(`Couldn't collect: ${Object.keys(errors).join(", ")}`);
+    }
+
+    return summary;
+}
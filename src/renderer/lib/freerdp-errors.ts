@@ -0,0 +1,463 @@
+/**
+ * What FreeRDP's exit codes and errors mean for WinBoat users. Exit codes 1-26 are the server's disconnect
+ * reasons (`ERRINFO_*`), 128 and up the client's own, most of them connection errors (`ERRCONNECT_*`), see error.h:
+ * https://github.com/FreeRDP/FreeRDP/blob/3fc1c3ce31b5af1098d15603d7b3fe1c93cf77a5/include/freerdp/error.h#L58
+ */
+
+export type FreeRDPErrorDescription = {
+    // FreeRDP's name for the error
+    name: string;
+    message: string;
+    cause: string;
+    remediation: string;
+};
+
+const CHECK_PASSWORD =
+    "Change the Windows password under Configuration → Credentials, so that WinBoat and Windows agree on it";
+const RESTART_CONTAINER = "Restart the container from the Home page, then launch the app again";
+const CHECK_LOGS = "Check the FreeRDP output in the winboat log under Logs, and report a bug if it keeps happening";
+const LICENSE_REMEDIATION =
+    "WinBoat's single admin session doesn't need a Remote Desktop license, so the guest's licensing settings were likely changed. Revert them, or restart the container if nothing was changed";
+
+// Sessions ending like this are business as usual, not errors
+const BENIGN_EXIT_CODES = new Set([0, 1, 2, 11, 12]);
+
+export const FREERDP_EXIT_CODES: Record<number, FreeRDPErrorDescription> = {
+    1: {
+        name: "ERRINFO_RPC_INITIATED_DISCONNECT",
+        message: "The session was disconnected by Windows",
+        cause: "Another app connected and took over the session",
+        remediation: "Nothing to do, the app opened in the new session",
+    },
+    2: {
+        name: "ERRINFO_RPC_INITIATED_LOGOFF",
+        message: "Windows logged the session off",
+        cause: "An administrative tool or another session logged this one off",
+        remediation: "Launch the app again",
+    },
+    3: {
+        name: "ERRINFO_IDLE_TIMEOUT",
+        message: "The session was idle for too long",
+        cause: "Windows' idle session limit was reached",
+        remediation: "Launch the app again, or raise the idle session limit in the guest's Remote Desktop policies",
+    },
+    4: {
+        name: "ERRINFO_LOGON_TIMEOUT",
+        message: "Windows took too long to log in",
+        cause: "The VM is still booting or is overloaded",
+        remediation: "Wait for Windows to finish booting, or give the VM more CPU cores and RAM under Configuration",
+    },
+    5: {
+        name: "ERRINFO_DISCONNECTED_BY_OTHER_CONNECTION",
+        message: "Another connection replaced this session",
+        cause: "Someone connected to the VM with the same account, e.g. through the browser display",
+        remediation: "Close the other connection, then launch the app again",
+    },
+    6: {
+        name: "ERRINFO_OUT_OF_MEMORY",
+        message: "Windows ran out of memory",
+        cause: "The VM doesn't have enough RAM for the apps running in it",
+        remediation: "Close apps in Windows, or allocate more RAM to the VM under Configuration",
+    },
+    7: {
+        name: "ERRINFO_SERVER_DENIED_CONNECTION",
+        message: "Windows refused the connection",
+        cause: "Remote Desktop is disabled or still starting up in the guest",
+        remediation: RESTART_CONTAINER,
+    },
+    8: {
+        name: "ERRINFO_SERVER_DENIED_CONNECTION_FIPS",
+        message: "Windows refused the connection because of its FIPS policy",
+        cause: "The guest only allows FIPS compliant encryption, which FreeRDP's security settings don't satisfy",
+        remediation: "Disable the FIPS policy in the guest, or replace '/sec:tls' in the FreeRDP arguments",
+    },
+    9: {
+        name: "ERRINFO_SERVER_INSUFFICIENT_PRIVILEGES",
+        message: "The Windows account isn't allowed to connect",
+        cause: "The account isn't in the Remote Desktop Users or Administrators group",
+        remediation: "Add the account to the Remote Desktop Users group in the guest",
+    },
+    10: {
+        name: "ERRINFO_SERVER_FRESH_CREDENTIALS_REQUIRED",
+        message: "Windows asked for the password again",
+        cause: "The guest's policy doesn't accept saved credentials",
+        remediation: CHECK_PASSWORD,
+    },
+    11: {
+        name: "ERRINFO_RPC_INITIATED_DISCONNECT_BYUSER",
+        message: "The session was disconnected from within Windows",
+        cause: "The session was disconnected through the start menu or Task Manager",
+        remediation: "Nothing to do",
+    },
+    12: {
+        name: "ERRINFO_LOGOFF_BY_USER",
+        message: "The session was logged off from within Windows",
+        cause: "The user signed out",
+        remediation: "Nothing to do",
+    },
+    16: {
+        name: "ERRINFO_LICENSE_INTERNAL",
+        message: "Windows hit an internal licensing error",
+        cause: "The Remote Desktop licensing service in the guest failed",
+        remediation: LICENSE_REMEDIATION,
+    },
+    17: {
+        name: "ERRINFO_LICENSE_NO_LICENSE_SERVER",
+        message: "Windows couldn't find a Remote Desktop license server",
+        cause: "The guest is configured for Remote Desktop Services licensing without a license server",
+        remediation: LICENSE_REMEDIATION,
+    },
+    18: {
+        name: "ERRINFO_LICENSE_NO_LICENSE",
+        message: "There's no Remote Desktop license for this connection",
+        cause: "The guest requires Remote Desktop client access licenses",
+        remediation: LICENSE_REMEDIATION,
+    },
+    19: {
+        name: "ERRINFO_LICENSE_BAD_CLIENT_MSG",
+        message: "Windows rejected FreeRDP's licensing message",
+        cause: "FreeRDP and Windows disagree on the licensing protocol",
+        remediation: "Update FreeRDP to the latest 3.x release",
+    },
+    20: {
+        name: "ERRINFO_LICENSE_HWID_DOESNT_MATCH_LICENSE",
+        message: "The stored Remote Desktop license belongs to another machine",
+        cause: "FreeRDP's license cache is from another host or VM",
+        remediation: "Delete FreeRDP's license cache in ~/.config/freerdp/licenses, then launch the app again",
+    },
+    21: {
+        name: "ERRINFO_LICENSE_BAD_CLIENT_LICENSE",
+        message: "Windows rejected the stored Remote Desktop license",
+        cause: "FreeRDP's license cache is corrupt or outdated",
+        remediation: "Delete FreeRDP's license cache in ~/.config/freerdp/licenses, then launch the app again",
+    },
+    22: {
+        name: "ERRINFO_LICENSE_CANT_FINISH_PROTOCOL",
+        message: "The licensing handshake couldn't be completed",
+        cause: "The connection dropped while licensing",
+        remediation: LICENSE_REMEDIATION,
+    },
+    23: {
+        name: "ERRINFO_LICENSE_CLIENT_ENDED_PROTOCOL",
+        message: "FreeRDP ended the licensing handshake",
+        cause: "FreeRDP couldn't process Windows' licensing messages",
+        remediation: "Update FreeRDP to the latest 3.x release",
+    },
+    24: {
+        name: "ERRINFO_LICENSE_BAD_CLIENT_ENCRYPTION",
+        message: "The licensing messages couldn't be decrypted",
+        cause: "FreeRDP and Windows disagree on the licensing encryption",
+        remediation: "Update FreeRDP to the latest 3.x release",
+    },
+    25: {
+        name: "ERRINFO_LICENSE_CANT_UPGRADE_LICENSE",
+        message: "The Remote Desktop license couldn't be upgraded",
+        cause: "The guest's license server couldn't issue a newer license",
+        remediation: LICENSE_REMEDIATION,
+    },
+    26: {
+        name: "ERRINFO_LICENSE_NO_REMOTE_CONNECTIONS",
+        message: "Windows doesn't allow any more remote connections",
+        cause: "The guest's license only allows a limited number of Remote Desktop sessions",
+        remediation: "Close other sessions to the VM, then launch the app again",
+    },
+    32: {
+        name: "XF_EXIT_RDP",
+        message: "The connection failed with an RDP protocol error",
+        cause: "FreeRDP and Windows disagree on some part of the protocol, often because of custom FreeRDP arguments",
+        remediation: `Remove custom FreeRDP arguments under Configuration. ${CHECK_LOGS}`,
+    },
+    128: {
+        name: "XF_EXIT_PARSE_ARGUMENTS",
+        message: "FreeRDP didn't accept its arguments",
+        cause: "A custom FreeRDP argument is misspelled or not supported by the installed FreeRDP version",
+        remediation: "Check the custom FreeRDP arguments under Configuration",
+    },
+    129: {
+        name: "XF_EXIT_MEMORY",
+        message: "FreeRDP ran out of memory",
+        cause: "The host is low on memory",
+        remediation: "Close other applications on the host, then launch the app again",
+    },
+    130: {
+        name: "XF_EXIT_PROTOCOL",
+        message: "FreeRDP hit a protocol error",
+        cause: "FreeRDP and Windows disagree on some part of the protocol",
+        remediation: CHECK_LOGS,
+    },
+    131: {
+        name: "XF_EXIT_CONN_FAILED",
+        message: "FreeRDP couldn't connect to Windows",
+        cause: "The VM isn't running, or Remote Desktop in it isn't ready yet",
+        remediation: "Wait for Windows to finish booting, or restart the container from the Home page",
+    },
+    132: {
+        name: "ERRCONNECT_AUTHENTICATION_FAILED",
+        message: "Windows rejected the login",
+        cause: "The username or password WinBoat has don't match the Windows account",
+        remediation: CHECK_PASSWORD,
+    },
+    133: {
+        name: "ERRCONNECT_SECURITY_NEGO_CONNECT_FAILED",
+        message: "FreeRDP and Windows couldn't agree on a security protocol",
+        cause: "The '/sec:' FreeRDP argument doesn't match what Windows allows",
+        remediation: "Remove or adjust the '/sec:' override in the FreeRDP arguments under Configuration",
+    },
+    134: {
+        name: "ERRCONNECT_LOGON_FAILURE",
+        message: "Windows rejected the username or password",
+        cause: "The password was changed inside Windows, or WinBoat's copy of it was lost",
+        remediation: CHECK_PASSWORD,
+    },
+    135: {
+        name: "ERRCONNECT_ACCOUNT_LOCKED_OUT",
+        message: "The Windows account is locked out",
+        cause: "Too many logins with a wrong password",
+        remediation: `Wait for the lockout to expire, or unlock the account through the browser display. ${CHECK_PASSWORD}`,
+    },
+    136: {
+        name: "ERRCONNECT_PRE_CONNECT_FAILED",
+        message: "FreeRDP failed before connecting",
+        cause: "A FreeRDP channel or plugin (e.g. sound, smart cards) couldn't be loaded",
+        remediation: "Disable smart card passthrough or remove custom FreeRDP arguments under Configuration",
+    },
+    137: {
+        name: "ERRCONNECT_CONNECT_UNDEFINED",
+        message: "The connection failed for an unknown reason",
+        cause: "FreeRDP didn't report what went wrong",
+        remediation: CHECK_LOGS,
+    },
+    138: {
+        name: "ERRCONNECT_POST_CONNECT_FAILED",
+        message: "FreeRDP failed right after connecting",
+        cause: "The display couldn't be set up, e.g. because of an unsupported scale or monitor setup",
+        remediation: "Reset the display scaling and multi-monitor settings under Configuration",
+    },
+    139: {
+        name: "ERRCONNECT_DNS_ERROR",
+        message: "FreeRDP couldn't resolve the VM's address",
+        cause: "The host's name resolution is broken",
+        remediation: CHECK_LOGS,
+    },
+    140: {
+        name: "ERRCONNECT_DNS_NAME_NOT_FOUND",
+        message: "FreeRDP couldn't find the VM's address",
+        cause: "The host's name resolution is broken",
+        remediation: CHECK_LOGS,
+    },
+    141: {
+        name: "ERRCONNECT_CONNECT_FAILED",
+        message: "FreeRDP couldn't reach Windows",
+        cause: "The RDP port isn't forwarded or Windows isn't listening on it yet",
+        remediation: "Wait for Windows to finish booting. If the RDP port was changed, restart the container",
+    },
+    142: {
+        name: "ERRCONNECT_MCS_CONNECT_INITIAL_ERROR",
+        message: "Windows rejected the connection settings",
+        cause: "A custom FreeRDP argument requested something Windows doesn't support",
+        remediation: "Remove custom FreeRDP arguments under Configuration",
+    },
+    143: {
+        name: "ERRCONNECT_TLS_CONNECT_FAILED",
+        message: "The TLS handshake with Windows failed",
+        cause: "Windows' Remote Desktop certificate is broken, or the host's OpenSSL rejects its ciphers",
+        remediation: `${RESTART_CONTAINER}. If it keeps happening, check the host's OpenSSL security level`,
+    },
+    144: {
+        name: "ERRCONNECT_INSUFFICIENT_PRIVILEGES",
+        message: "The Windows account isn't allowed to connect",
+        cause: "The account isn't in the Remote Desktop Users or Administrators group",
+        remediation: "Add the account to the Remote Desktop Users group in the guest",
+    },
+    145: {
+        name: "ERRCONNECT_CONNECT_CANCELLED",
+        message: "The connection was cancelled",
+        cause: "FreeRDP was closed while connecting",
+        remediation: "Launch the app again",
+    },
+    147: {
+        name: "ERRCONNECT_CONNECT_TRANSPORT_FAILED",
+        message: "The connection to Windows broke down",
+        cause: "The container's network or port forwarding dropped the connection",
+        remediation: RESTART_CONTAINER,
+    },
+    148: {
+        name: "ERRCONNECT_PASSWORD_EXPIRED",
+        message: "The Windows password expired",
+        cause: "The guest's password policy expired the account's password",
+        remediation: CHECK_PASSWORD,
+    },
+    149: {
+        name: "ERRCONNECT_PASSWORD_MUST_CHANGE",
+        message: "Windows requires a new password",
+        cause: "The account is flagged to change its password at the next login",
+        remediation: CHECK_PASSWORD,
+    },
+    150: {
+        name: "ERRCONNECT_KDC_UNREACHABLE",
+        message: "The Kerberos server couldn't be reached",
+        cause: "A custom FreeRDP argument enabled Kerberos authentication",
+        remediation: "Remove Kerberos related FreeRDP arguments under Configuration",
+    },
+    151: {
+        name: "ERRCONNECT_ACCOUNT_DISABLED",
+        message: "The Windows account is disabled",
+        cause: "The account was disabled inside Windows",
+        remediation: "Enable the account again through the browser display",
+    },
+    152: {
+        name: "ERRCONNECT_PASSWORD_CERTAINLY_EXPIRED",
+        message: "The Windows password expired",
+        cause: "The guest's password policy expired the account's password",
+        remediation: CHECK_PASSWORD,
+    },
+    153: {
+        name: "ERRCONNECT_CLIENT_REVOKED",
+        message: "Windows revoked this client",
+        cause: "The guest's policy blocks this host",
+        remediation: "Check the guest's Remote Desktop policies through the browser display",
+    },
+    154: {
+        name: "ERRCONNECT_WRONG_PASSWORD",
+        message: "The Windows password is wrong",
+        cause: "The password was changed inside Windows, or WinBoat's copy of it was lost",
+        remediation: CHECK_PASSWORD,
+    },
+    155: {
+        name: "ERRCONNECT_ACCESS_DENIED",
+        message: "Windows denied access",
+        cause: "The account isn't allowed to log in remotely",
+        remediation: "Add the account to the Remote Desktop Users group in the guest",
+    },
+    156: {
+        name: "ERRCONNECT_ACCOUNT_RESTRICTION",
+        message: "The Windows account is restricted",
+        cause: "The account may not log in at this time or from this host, or has an empty password",
+        remediation: CHECK_PASSWORD,
+    },
+    157: {
+        name: "ERRCONNECT_ACCOUNT_EXPIRED",
+        message: "The Windows account expired",
+        cause: "The account's expiry date has passed",
+        remediation: "Remove the account's expiry date through the browser display",
+    },
+    158: {
+        name: "ERRCONNECT_LOGON_TYPE_NOT_GRANTED",
+        message: "The Windows account may not log in through Remote Desktop",
+        cause: "The 'Allow log on through Remote Desktop Services' right is missing",
+        remediation: "Grant the right in the guest's local security policy",
+    },
+    159: {
+        name: "ERRCONNECT_NO_OR_MISSING_CREDENTIALS",
+        message: "There are no credentials to log in with",
+        cause: "WinBoat couldn't find the Windows password in its secret store",
+        remediation: CHECK_PASSWORD,
+    },
+    255: {
+        name: "XF_EXIT_UNKNOWN",
+        message: "FreeRDP failed for an unknown reason",
+        cause: "FreeRDP didn't report what went wrong",
+        remediation: CHECK_LOGS,
+    },
+};
+
+// Errors that only show up in FreeRDP's output, like RemoteApp failures that still end the session cleanly
+const OUTPUT_ERRORS: FreeRDPErrorDescription[] = [
+    {
+        name: "RAIL_EXEC_E_NOT_IN_ALLOWLIST",
+        message: "Windows doesn't allow this app to run as a RemoteApp",
+        cause: "The guest only runs allowlisted RemoteApps, WinBoat's RDPApps.reg settings are missing",
+        remediation:
+            "Set 'fAllowUnlistedRemotePrograms' to 1 under HKLM\\SOFTWARE\\Microsoft\\Windows NT\\CurrentVersion\\Terminal Server\\TSAppAllowList in the guest",
+    },
+    {
+        name: "RAIL_EXEC_E_FILE_NOT_FOUND",
+        message: "Windows couldn't find the app",
+        cause: "The app was uninstalled or moved",
+        remediation: "Refresh the app list, or fix the path of the custom app",
+    },
+    {
+        name: "RAIL_EXEC_E_HOOK_NOT_LOADED",
+        message: "Windows' RemoteApp support isn't ready",
+        cause: "The RemoteApp shell hook wasn't loaded in the session yet",
+        remediation: "Launch the app again, or restart the container if it keeps happening",
+    },
+    {
+        name: "RAIL_EXEC_E_SESSION_LOCKED",
+        message: "The Windows session is locked",
+        cause: "The session was locked, e.g. by a screen saver policy",
+        remediation: "Unlock the session through the browser display, then launch the app again",
+    },
+    {
+        name: "RAIL_EXEC_E_DECODE_FAILED",
+        message: "Windows couldn't read the launch request",
+        cause: "The app's arguments or file paths contain characters RemoteApp can't handle",
+        remediation: "Remove unusual characters from the app's arguments or the opened file's path",
+    },
+    {
+        name: "RAIL_EXEC_E_FAIL",
+        message: "Windows couldn't start the app",
+        cause: "The app failed to start inside Windows",
+        remediation: "Launch the app from the Windows desktop to see its error",
+    },
+];
+
+const ERRORS_BY_NAME = new Map(
+    [...Object.values(FREERDP_EXIT_CODES), ...OUTPUT_ERRORS].map(description => [description.name, description]),
+);
+
+// e.g. `[ERROR][com.freerdp.core] - [freerdp_set_last_error_ex]: ERRCONNECT_LOGON_FAILURE [0x00020014]`
+const OUTPUT_ERROR_REGEX = /\b(?:ERRCONNECT|ERRINFO|RAIL_EXEC_E)_[A-Z0-9_]+\b/g;
+
+/**
+ * A FreeRDP session that ended with an error
+ */
+export class FreeRDPError extends Error {
+    constructor(
+        readonly exitCode: number,
+        readonly description: FreeRDPErrorDescription,
+        // Error names found in FreeRDP's output, in the order they appeared
+        readonly outputErrors: string[],
+    ) {
+        super(description.message);
+    }
+}
+
+/**
+ * Returns the known error names in FreeRDP's output, without duplicates
+ */
+export function parseFreeRDPOutput(output: string): string[] {
+    return [...new Set(output.match(OUTPUT_ERROR_REGEX) ?? [])];
+}
+
+/**
+ * Describes why FreeRDP exited. Errors in its output are usually more specific than the exit code
+ * (e.g. a TLS failure behind a generic connection failure), so the first known one wins
+ */
+export function describeFreeRDPExit(exitCode: number, output = ""): FreeRDPErrorDescription {
+    const outputErrors = parseFreeRDPOutput(output);
+    const fromOutput = outputErrors.map(name => ERRORS_BY_NAME.get(name)).find(description => !!description);
+
+    return (
+        fromOutput ??
+        FREERDP_EXIT_CODES[exitCode] ?? {
+            name: `EXIT_CODE_${exitCode}`,
+            message: `FreeRDP exited with code ${exitCode}`,
+            cause: "This exit code isn't documented by FreeRDP",
+            remediation: CHECK_LOGS,
+        }
+    );
+}
+
+/**
+ * Returns why a FreeRDP session failed, `null` if it ended normally (e.g. by logging off)
+ * @param output FreeRDP's stdout and stderr
+ */
+export function getFreeRDPFailure(exitCode: number, output = ""): FreeRDPError | null {
+    const outputErrors = parseFreeRDPOutput(output);
+    // RemoteApp failures end the session cleanly, they only show up in the output
+    const remoteAppFailed = outputErrors.some(name => name.startsWith("RAIL_EXEC_E_"));
+    if (BENIGN_EXIT_CODES.has(exitCode) && !remoteAppFailed) return null;
+
+    return new FreeRDPError(exitCode, describeFreeRDPExit(exitCode, output), outputErrors);
+}
@@ -0,0 +1,317 @@
+import {
+    type GuestAuthHashResponse,
+    type GuestDiskExtendResponse,
+    type GuestHealthResponse,
+    type GuestRDPStatusResponse,
+    type GuestServerUpdateResponse,
+    type GuestServerVersion,
+    type Metrics,
+    type WinApp,
+} from "../../types";
+import { createLogger } from "../utils/log";
+import { WINBOAT_DIR } from "./constants";
+
+const nodeFetch: typeof import("node-fetch").default = require("node-fetch");
+const FormData: typeof import("form-data") = require("form-data");
+const fs: typeof import("fs") = require("node:fs");
+const path: typeof import("path") = require("node:path");
+
+const logger = createLogger(path.join(WINBOAT_DIR, "guestapi.log"));
+
+export class GuestApiError extends Error {
+    constructor(
+        message: string,
+        readonly endpoint: string,
+        options?: ErrorOptions,
+    ) {
+        super(message, options);
+    }
+}
+
+/**
+ * The guest server couldn't be reached, or didn't answer in time
+ */
+export class GuestOfflineError extends GuestApiError {}
+
+/**
+ * The guest server rejected our credentials
+ */
+export class GuestUnauthorizedError extends GuestApiError {}
+
+/**
+ * The guest server answered with something we can't make sense of
+ */
+export class GuestBadPayloadError extends GuestApiError {}
+
+/**
+ * The guest server answered with an error status other than 401
+ */
+export class GuestRequestError extends GuestApiError {
+    constructor(
+        message: string,
+        endpoint: string,
+        readonly status: number,
+    ) {
+        super(message, endpoint);
+    }
+}
+
+type RequestOptions<T> = {
+    method?: "GET" | "POST";
+    body?: import("node-fetch").RequestInit["body"];
+    timeout?: number;
+    // Only GET requests are retried, POST requests aren't idempotent
+    retries?: number;
+    responseType?: "json" | "text";
+    validate?: (payload: unknown) => payload is T;
+};
+
+// Timeouts in milliseconds, scripts like `/apps` run PowerShell in the guest, so they take a while
+const TIMEOUTS = {
+    default: 2000,
+    apps: 30000,
+    icon: 10000,
+    update: 60000,
+    extendDisk: 60000,
+    rotateCredentials: 30000,
+};
+
+const RETRY_BASE_DELAY_MS = 250;
+
+function isObject(payload: unknown): payload is Record<string, any> {
+    return typeof payload === "object" && payload !== null;
+}
+
+function isStatusResponse(payload: unknown): payload is GuestHealthResponse | GuestAuthHashResponse {
+    return isObject(payload) && typeof payload.status === "string";
+}
+
+function isWinAppList(payload: unknown): payload is WinApp[] {
+    return Array.isArray(payload) && payload.every(app => isObject(app) && typeof app.Name === "string");
+}
+
+function isVersion(payload: unknown): payload is GuestServerVersion {
+    return isObject(payload) && typeof payload.version === "string";
+}
+
+function isMetrics(payload: unknown): payload is Metrics {
+    return (
+        isObject(payload) &&
+        isObject(payload.cpu) &&
+        isObject(payload.ram) &&
+        isObject(payload.disk) &&
+        typeof payload.cpu.usage === "number" &&
+        typeof payload.ram.percentage === "number" &&
+        typeof payload.disk.percentage === "number"
+    );
+}
+
+function isRDPStatus(payload: unknown): payload is GuestRDPStatusResponse {
+    return isObject(payload) && typeof payload.rdpConnected === "boolean";
+}
+
+function isUpdateResponse(payload: unknown): payload is GuestServerUpdateResponse {
+    return isObject(payload) && typeof payload.status === "string" && typeof payload.temp_path === "string";
+}
+
+function isDiskExtendResponse(payload: unknown): payload is GuestDiskExtendResponse {
+    return isObject(payload) && typeof payload.extended === "boolean" && typeof payload.new_size === "number";
+}
+
+/**
+ * Talks to the WinBoat Guest Server running inside Windows
+ */
+export class GuestApiClient {
+    /**
+     * @param getBaseUrl Returns the URL the guest server is reachable at, or `undefined` if it isn't known yet,
+     * e.g. because the container's ports haven't been mapped
+     */
+    constructor(readonly getBaseUrl: () => string | undefined) {}
+
+    async #request<T>(endpoint: string, options: RequestOptions<T> = {}): Promise<T> {
+        const method = options.method ?? "GET";
+        const retries = method === "GET" ? (options.retries ?? 0) : 0;
+
+        for (let attempt = 0; ; attempt++) {
+            try {
+                return await this.#requestOnce(endpoint, method, options);
+            } catch (e) {
+                // Only failures that might go away on their own are worth retrying
+                const isTransient =
+                    e instanceof GuestOfflineError || (e instanceof GuestRequestError && e.status >= 500);
+
+                if (!isTransient || attempt >= retries) throw e;
+
+                const delay = RETRY_BASE_DELAY_MS * 2 ** attempt;
+                logger.warn(`${method} ${endpoint} failed (${(e as Error).message}), retrying in ${delay}ms`);
+                await new Promise(resolve => setTimeout(resolve, delay));
+            }
+        }
+    }
+
+    async #requestOnce<T>(endpoint: string, method: "GET" | "POST", options: RequestOptions<T>): Promise<T> {
+        const baseUrl = this.getBaseUrl();
+        if (!baseUrl) {
+            throw new GuestOfflineError("The guest server's port is not known yet", endpoint);
+        }
+
+        let res: Awaited<ReturnType<typeof nodeFetch>>;
+        try {
+            res = await nodeFetch(`${baseUrl}${endpoint}`, {
+                method,
+                body: options.body,
+                signal: AbortSignal.timeout(options.timeout ?? TIMEOUTS.default),
+            });
+        } catch (e) {
+            const reason = e instanceof Error && e.name === "AbortError" ? "timed out" : "failed";
+            throw new GuestOfflineError(`Request to ${endpoint} ${reason}`, endpoint, { cause: e });
+        }
+
+        if (res.status === 401) {
+            throw new GuestUnauthorizedError(`Unauthorized: ${(await res.text()).trim()}`, endpoint);
+        }
+
+        if (!res.ok) {
+            throw new GuestRequestError(`${res.status}: ${(await res.text()).trim()}`, endpoint, res.status);
+        }
+
+        const text = await res.text();
+
+        if (options.responseType === "text") {
+            return text as T;
+        }
+
+        let payload: unknown;
+        try {
+            payload = JSON.parse(text);
+        } catch (e) {
+            throw new GuestBadPayloadError(`${endpoint} returned invalid JSON`, endpoint, { cause: e });
+        }
+
+        if (options.validate && !options.validate(payload)) {
+            throw new GuestBadPayloadError(
+                `${endpoint} returned an unexpected payload: ${text.slice(0, 200)}`,
+                endpoint,
+            );
+        }
+
+        return payload as T;
+    }
+
+    async getHealth(): Promise<GuestHealthResponse> {
+        return await this.#request("/health", { validate: isStatusResponse });
+    }
+
+    /**
+     * Like {@link getHealth}, but never throws
+     */
+    async isHealthy(): Promise<boolean> {
+        try {
+            await this.getHealth();
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    async getVersion(): Promise<GuestServerVersion> {
+        return await this.#request("/version", { validate: isVersion, retries: 2 });
+    }
+
+    async getMetrics(): Promise<Metrics> {
+        return await this.#request("/metrics", { validate: isMetrics });
+    }
+
+    async getRDPStatus(): Promise<GuestRDPStatusResponse> {
+        return await this.#request("/rdp/status", { validate: isRDPStatus });
+    }
+
+    async getApps(): Promise<WinApp[]> {
+        return await this.#request("/apps", { validate: isWinAppList, timeout: TIMEOUTS.apps, retries: 2 });
+    }
+
+    /**
+     * Returns the icon of an executable in the guest as a base64 encoded PNG
+     */
+    async getIcon(guestPath: string): Promise<string> {
+        const formData = new FormData();
+        formData.append("path", guestPath);
+
+        const icon = await this.#request<string>("/get-icon", {
+            method: "POST",
+            body: formData,
+            timeout: TIMEOUTS.icon,
+            responseType: "text",
+        });
+
+        return icon.trim();
+    }
+
+    /**
+     * Uploads a new guest server build, the guest server restarts itself afterwards
+     * @throws {GuestUnauthorizedError} If the password doesn't match the guest's auth hash
+     */
+    async update(zipPath: string, password: string): Promise<GuestServerUpdateResponse> {
+        const formData = new FormData();
+        formData.append("updateFile", fs.createReadStream(zipPath));
+        formData.append("password", password);
+
+        return await this.#request("/update", {
+            method: "POST",
+            body: formData,
+            timeout: TIMEOUTS.update,
+            validate: isUpdateResponse,
+        });
+    }
+
+    /**
+     * Grows C: into the unallocated space at the end of the disk, e.g. after the virtual disk was grown
+     * @throws {GuestRequestError} With status 404 if the guest server predates this endpoint
+     */
+    async extendSystemDisk(): Promise<GuestDiskExtendResponse> {
+        return await this.#request("/disk/extend", {
+            method: "POST",
+            timeout: TIMEOUTS.extendDisk,
+            validate: isDiskExtendResponse,
+        });
+    }
+
+    /**
+     * Changes the password of the Windows account and re-enrolls the auth hash to match it.
+     * The guest puts the old password back if it can't store the new hash
+     * @param password The current password, which the guest checks against its auth hash
+     * @throws {GuestUnauthorizedError} If the password doesn't match the guest's auth hash
+     * @throws {GuestRequestError} With status 404 if the guest server predates this endpoint
+     */
+    async rotateCredentials(password: string, username: string, newPassword: string, newAuthHash: string) {
+        const formData = new FormData();
+        formData.append("password", password);
+        formData.append("username", username);
+        formData.append("newPassword", newPassword);
+        formData.append("newAuthHash", newAuthHash);
+
+        await this.#request("/auth/rotate", {
+            method: "POST",
+            body: formData,
+            timeout: TIMEOUTS.rotateCredentials,
+            validate: isStatusResponse,
+        });
+    }
+
+    /**
+     * Enrolls the hash updates are authenticated against
+     * @returns `false` if the guest already had a hash
+     */
+    async setAuthHash(hash: string): Promise<boolean> {
+        const formData = new FormData();
+        formData.append("authHash", hash);
+
+        try {
+            await this.#request("/auth/set-hash", { method: "POST", body: formData, validate: isStatusResponse });
+            return true;
+        } catch (e) {
+            if (e instanceof GuestRequestError && e.status === 400) return false;
+            throw e;
+        }
+    }
+}
@@ -5,8 +5,11 @@ import { createNanoEvents, type Emitter } from "nanoevents";
 import { Winboat } from "./winboat";
 import { WinboatConfig } from "./config";
 import { CommonPorts, createRuntime, getActiveHostPort } from "./runtimes/common";
+import { findActiveVM, updateVM } from "./vms";
 import { getRuntimeCapabilities } from "./runtimes/capabilities";
 import type { RuntimeManager } from "./runtimes/runtime";
+import { GuestApiClient, GuestOfflineError } from "./guestapi";
+import { PASSWORD_PLACEHOLDER, setVMPassword } from "./secrets";
 
 const fs: typeof import("fs") = require("fs");
 const path: typeof import("path") = require("path");
@@ -45,7 +48,7 @@ export class InstallManager {
         this.state = InstallStates.IDLE;
         this.preinstallMsg = "";
         this.emitter = createNanoEvents<InstallEvents>();
-        this.container = createRuntime(conf.container);
+        this.container = createRuntime(conf.container, conf.vm);
     }
 
     changeState(newState: InstallStates) {
@@ -68,10 +71,10 @@ export class InstallManager {
     async createComposeFile() {
         this.changeState(InstallStates.CREATING_COMPOSE_FILE);
 
-        // Ensure the .winboat directory exists
-        if (!fs.existsSync(WINBOAT_DIR)) {
-            fs.mkdirSync(WINBOAT_DIR);
-            logger.info(`Created WinBoat directory: ${WINBOAT_DIR}`);
+        // Ensure the VM's directory exists, which for the default VM is the .winboat directory
+        if (!fs.existsSync(this.conf.vm.dataDir)) {
+            fs.mkdirSync(this.conf.vm.dataDir, { recursive: true });
+            logger.info(`Created VM directory: ${this.conf.vm.dataDir}`);
         }
 
         // Ensure the installation directory exists
@@ -89,7 +92,9 @@ export class InstallManager {
         composeContent.services.windows.environment.VERSION = this.conf.windowsVersion;
         composeContent.services.windows.environment.LANGUAGE = this.conf.windowsLanguage;
         composeContent.services.windows.environment.USERNAME = this.conf.username;
-        composeContent.services.windows.environment.PASSWORD = this.conf.password;
+        // The compose file only references the password, it's passed to compose through the environment
+        composeContent.services.windows.environment.PASSWORD = PASSWORD_PLACEHOLDER;
+        await setVMPassword(this.conf.vm, this.conf.password);
 
         // Boot image mapping
         if (this.conf.customIsoPath) {
@@ -130,6 +135,7 @@ export class InstallManager {
 
         // Write the compose file
         this.container.writeCompose(composeContent);
+        updateVM(this.conf.vm.id, { storageFolder: this.conf.installFolder });
     }
 
     async createOEMAssets() {
@@ -137,7 +143,7 @@ export class InstallManager {
         logger.info("Creating OEM assets");
         logger.info(`Selected guest architecture: ${this.conf.guestArch}`);
 
-        const oemPath = path.join(WINBOAT_DIR, "oem"); // Fixed the path separator
+        const oemPath = path.join(this.conf.vm.dataDir, "oem"); // Fixed the path separator
 
         // Create OEM directory if it doesn’t exist
         if (!fs.existsSync(oemPath)) {
@@ -279,37 +285,34 @@ export class InstallManager {
         logger.info("Waiting for WinBoat Guest Server to wrap up installation...");
 
         let attempts = 0;
+        const guestApi = new GuestApiClient(() => {
+            const apiHostPort = getActiveHostPort(this.container, CommonPorts.API);
+            return apiHostPort ? `http://127.0.0.1:${apiHostPort}` : undefined;
+        });
 
         while (true) {
             const start = performance.now();
 
             try {
-                const apiHostPort = getActiveHostPort(this.container, CommonPorts.API)!;
-                const res = await nodeFetch(`http://127.0.0.1:${apiHostPort}/health`, {
-                    signal: AbortSignal.timeout(5000),
-                });
+                await guestApi.getHealth();
 
-                if (res.status === 200) {
-                    logger.info("WinBoat Guest Server is up and healthy!");
-                    this.changeState(InstallStates.COMPLETED);
+                logger.info("WinBoat Guest Server is up and healthy!");
+                this.changeState(InstallStates.COMPLETED);
 
-                    const compose = Winboat.readCompose(this.container.composeFilePath);
-                    const filteredVolumes = compose.services.windows.volumes.filter(
-                        volume => !volume.endsWith("/boot.iso"),
-                    );
-
-                    if (compose.services.windows.volumes.length !== filteredVolumes.length) {
-                        compose.services.windows.volumes = filteredVolumes;
-                        this.container.writeCompose(compose);
-                    }
+                const compose = Winboat.readCompose(this.container.composeFilePath);
+                const filteredVolumes = compose.services.windows.volumes.filter(
+                    volume => !volume.endsWith("/boot.iso"),
+                );
 
-                    return;
+                if (compose.services.windows.volumes.length !== filteredVolumes.length) {
+                    compose.services.windows.volumes = filteredVolumes;
+                    this.container.writeCompose(compose);
                 }
 
-                logger.log(`API request status: ${res.status}`);
+                return;
             } catch (error) {
-                // We can ignore the AbortError resulting from the timeout
-                if (!(error instanceof nodeFetch.AbortError)) {
+                // The guest server not being up yet is expected, anything else is worth logging
+                if (!(error instanceof GuestOfflineError)) {
                     logger.error(error);
                 }
             }
@@ -352,12 +355,12 @@ export class InstallManager {
 }
 
 export async function isInstalled(): Promise<boolean> {
-    // Check if a winboat container exists
+    // Check if the selected VM's container exists
     const config = WinboatConfig.readConfigObject(false);
 
     if (!config) return false;
 
-    const containerRuntime = createRuntime(config.containerRuntime);
+    const containerRuntime = createRuntime(config.containerRuntime, findActiveVM(config));
 
     return await containerRuntime.exists();
 }
@@ -0,0 +1,96 @@
+import { type LaunchProfile, type WinApp } from "../../types";
+import { InternalApps } from "../data/internalapps";
+import { MultiMonitorMode, type RdpArg, type WinboatConfigObj } from "./config";
+import { getAppWMClass } from "./launchers";
+
+/**
+ * The stock RDP args that apply to all app launches by default
+ */
+const stockArgs = [
+    "/cert:ignore",
+    "+clipboard",
+    "/sound:sys:pulse",
+    "/microphone:sys:pulse",
+    "/floatbar",
+    "/compression",
+    "/sec:tls",
+];
+
+// A whitespace separated argument, double quotes keep whitespace within it
+const ARG_REGEX = /(?:[^\s"]+|"[^"]*")+/g;
+
+/**
+ * The settings a launch ends up with, once the global ones are overridden by the app's profile
+ */
+export type LaunchSettings = Required<Omit<LaunchProfile, "extraArgs" | "singleInstance">> & { extraArgs: string[] };
+
+export type FreeRDPArgsOptions = {
+    rdpHostPort: number;
+    // The command line passed to the app, only used for RemoteApp launches
+    appCmd: string;
+};
+
+/**
+ * Whether the profile overrides anything at all, empty profiles aren't worth persisting
+ */
+export function isEmptyLaunchProfile(profile: LaunchProfile | undefined): boolean {
+    return !profile || Object.values(profile).every(value => value === undefined);
+}
+
+/**
+ * Splits extra arguments entered as a single line, see {@link ARG_REGEX}
+ */
+export function parseExtraArgs(input: string): string[] {
+    return input.match(ARG_REGEX) ?? [];
+}
+
+export function resolveLaunchSettings(config: WinboatConfigObj, profile: LaunchProfile = {}): LaunchSettings {
+    return {
+        scale: profile.scale ?? config.scale,
+        scaleDesktop: profile.scaleDesktop ?? config.scaleDesktop,
+        multiMonitor: profile.multiMonitor ?? config.multiMonitor,
+        smartcardEnabled: profile.smartcardEnabled ?? config.smartcardEnabled,
+        rdpArgs: profile.rdpArgs ?? config.rdpArgs,
+        extraArgs: profile.extraArgs ?? [],
+    };
+}
+
+/**
+ * Builds the FreeRDP arguments for launching an app. They're always in the same order: the connection,
+ * the stock arguments with the user's replacements applied, the user's new arguments, the arguments for
+ * the kind of launch (desktop or RemoteApp) and finally the profile's extra arguments
+ */
+export function buildFreeRDPArgs(app: WinApp, settings: LaunchSettings, options: FreeRDPArgsOptions): string[] {
+    const replacementArgs = settings.rdpArgs.filter(a => a.isReplacement);
+    const newArgs = settings.rdpArgs.filter(a => !a.isReplacement).map(v => v.newArg);
+    const combinedArgs = stockArgs.map(argStr => findReplacement(replacementArgs, argStr) ?? argStr).concat(newArgs);
+
+    let args = [`/v:127.0.0.1`, `/port:${options.rdpHostPort}`, ...combinedArgs];
+
+    if (app.Path == InternalApps.WINDOWS_DESKTOP) {
+        args = args.concat(["+f", settings.smartcardEnabled ? "/smartcard" : "", `/scale:${settings.scale}`]);
+    } else {
+        const cleanAppName = app.Name.replaceAll(/[,.'"]/g, "");
+        // FreeRDP strips the quotes around the whole option list before splitting it at every comma, which leaves the
+        // quotes within the command line alone. Commas can't be escaped, see resolveGuestPaths
+        const appOptions = [
+            `program:${app.Path}`,
+            `name:${cleanAppName}`,
+            ...(options.appCmd ? [`cmd:${options.appCmd}`] : []),
+        ];
+        args = args.concat([
+            settings.multiMonitor === MultiMonitorMode.Span ? "+span" : "",
+            "-wallpaper",
+            settings.multiMonitor === MultiMonitorMode.MultiMon ? "/multimon" : "",
+            `/scale-desktop:${settings.scaleDesktop}`,
+            `/wm-class:${getAppWMClass(app)}`,
+            `/app:"${appOptions.join(",")}"`,
+        ]);
+    }
+
+    return args.concat(settings.extraArgs).filter(v => v.trim() !== "");
+}
+
+function findReplacement(replacementArgs: RdpArg[], argStr: string): string | undefined {
+    return replacementArgs.find(r => argStr === r.original?.trim())?.newArg;
+}
@@ -0,0 +1,243 @@
+import { type WinApp, type WinboatVM } from "../../types";
+import { createLogger } from "../utils/log";
+import { IS_LINUX, WINBOAT_DIR } from "./constants";
+import { execFileAsync } from "./exec-helper";
+
+const fs: typeof import("fs") = require("node:fs");
+const path: typeof import("path") = require("node:path");
+const os: typeof import("os") = require("node:os");
+const process: typeof import("process") = require("node:process");
+const remote: typeof import("@electron/remote") = require("@electron/remote");
+
+const logger = createLogger(path.join(WINBOAT_DIR, "launchers.log"));
+
+const XDG_DATA_HOME = process.env.XDG_DATA_HOME || path.join(os.homedir(), ".local", "share");
+const APPLICATIONS_DIR = path.join(XDG_DATA_HOME, "applications");
+const ICONS_DIR = path.join(XDG_DATA_HOME, "icons", "hicolor");
+const PNG_SIGNATURE = "89504e470d0a1a0a";
+
+/**
+ * Returns the wm-class FreeRDP gives the RemoteApp window of an app
+ */
+export function getAppWMClass(app: WinApp): string {
+    return `winboat-${app.Name.replaceAll(/[,.'"]/g, "")}`;
+}
+
+/**
+ * Quotes an argument for the `Exec` key according to the Desktop Entry Specification. `Exec` is a string key,
+ * so the quoted command still has to go through {@link escapeDesktopValue}
+ */
+function quoteExecArg(arg: string): string {
+    const escaped = arg.replaceAll(/(["`$\\])/g, "\\$1").replaceAll("%", "%%");
+    return /^[A-Za-z0-9_\-./=:]+$/.test(arg) ? escaped : `"${escaped}"`;
+}
+
+/**
+ * Escapes a value of a string key in a desktop entry
+ */
+function escapeDesktopValue(value: string): string {
+    return value.replaceAll("\\", "\\\\").replaceAll("\n", "\\n").replaceAll("\t", "\\t");
+}
+
+/**
+ * Exports WinBoat apps as XDG desktop entries, so they show up in the host's application menu
+ */
+export class LauncherManager {
+    readonly #vm: WinboatVM;
+
+    constructor(vm: WinboatVM) {
+        this.#vm = vm;
+    }
+
+    /**
+     * Whether launchers can be exported on this host at all
+     */
+    static get isSupported(): boolean {
+        return IS_LINUX;
+    }
+
+    #getFileStem(appName: string): string {
+        const slug = appName
+            .toLowerCase()
+            .replace(/[^a-z0-9]+/g, "-")
+            .replace(/^-+|-+$/g, "");
+
+        return `winboat-${this.#vm.id}-${slug || "app"}`;
+    }
+
+    #getDesktopFilePath(appName: string): string {
+        return path.join(APPLICATIONS_DIR, `${this.#getFileStem(appName)}.desktop`);
+    }
+
+    /**
+     * Returns the command that starts WinBoat's CLI, see src/main/cli.ts
+     */
+    #getLaunchCommand(): string[] {
+        // AppImages are mounted to a different path every run, so we have to point at the image itself
+        if (process.env.APPIMAGE) {
+            return [process.env.APPIMAGE];
+        }
+
+        if (remote.app.isPackaged) {
+            return [remote.process.execPath];
+        }
+
+        return [remote.process.execPath, remote.app.getAppPath()];
+    }
+
+    /**
+     * Decodes the app's base64 icon into the hicolor icon theme, returning the icon name
+     */
+    #writeIcon(app: WinApp): string | null {
+        const icon = Buffer.from(app.Icon.replace(/^data:image\/png;base64,/, ""), "base64");
+
+        // The signature and the IHDR chunk header take up the first 24 bytes
+        if (icon.length < 24 || icon.subarray(0, 8).toString("hex") !== PNG_SIGNATURE) {
+            logger.warn(`Icon of '${app.Name}' is not a valid PNG, launcher will use the default icon`);
+            return null;
+        }
+
+        // The IHDR chunk always comes first, its width sits right after the chunk header
+        const size = icon.readUInt32BE(16);
+        const iconName = this.#getFileStem(app.Name);
+        const iconDir = path.join(ICONS_DIR, `${size}x${size}`, "apps");
+
+        fs.mkdirSync(iconDir, { recursive: true });
+        fs.writeFileSync(path.join(iconDir, `${iconName}.png`), icon);
+
+        return iconName;
+    }
+
+    #removeIcon(appName: string) {
+        if (!fs.existsSync(ICONS_DIR)) return;
+
+        const iconFile = `${this.#getFileStem(appName)}.png`;
+
+        for (const sizeDir of fs.readdirSync(ICONS_DIR)) {
+            const iconPath = path.join(ICONS_DIR, sizeDir, "apps", iconFile);
+
+            if (fs.existsSync(iconPath)) {
+                fs.rmSync(iconPath);
+            }
+        }
+    }
+
+    /**
+     * Refreshes the host's MIME cache, then makes the launcher the default handler of the given types
+     */
+    async #registerMimeTypes(desktopFilePath: string, mimeTypes: string[]) {
+        try {
+            await execFileAsync("update-desktop-database", [APPLICATIONS_DIR]);
+
+            if (mimeTypes.length) {
+                await execFileAsync("xdg-mime", ["default", path.basename(desktopFilePath), ...mimeTypes]);
+                logger.info(`Registered ${path.basename(desktopFilePath)} for ${mimeTypes.join(", ")}`);
+            }
+        } catch (e) {
+            // Desktop environments still pick up the MimeType key eventually, just not as the default handler
+            logger.warn("Failed to update the MIME database, are desktop-file-utils and xdg-utils installed?");
+            logger.warn(e);
+        }
+    }
+
+    isExported(appName: string): boolean {
+        return fs.existsSync(this.#getDesktopFilePath(appName));
+    }
+
+    /**
+     * Writes (or overwrites) the launcher of an app
+     * @param app The app to launch
+     * @param mimeTypes The MIME types the app should open on the host
+     */
+    async export(app: WinApp, mimeTypes: string[] = []) {
+        const iconName = this.#writeIcon(app);
+        // Files opened with the launcher are passed after '--', see 'winboat launch' in src/renderer/cli.ts
+        const exec = [...this.#getLaunchCommand(), "launch", "--vm", this.#vm.id, app.Name, "--"]
+            .map(quoteExecArg)
+            .concat("%F");
+
+        const desktopEntry = [
+            "[Desktop Entry]",
+            "Type=Application",
+            `Name=${escapeDesktopValue(app.Name)}`,
+            `Comment=${escapeDesktopValue(`Windows app running in WinBoat (${this.#vm.name})`)}`,
+            `Exec=${escapeDesktopValue(exec.join(" "))}`,
+            `Icon=${iconName ?? "application-x-ms-dos-executable"}`,
+            `StartupWMClass=${getAppWMClass(app)}`,
+            "Terminal=false",
+            "Categories=WinBoat;",
+            ...(mimeTypes.length ? [`MimeType=${mimeTypes.join(";")};`] : []),
+            `X-WinBoat-VM=${this.#vm.id}`,
+            "",
+        ].join("\n");
+
+        const desktopFilePath = this.#getDesktopFilePath(app.Name);
+
+        fs.mkdirSync(APPLICATIONS_DIR, { recursive: true });
+        fs.writeFileSync(desktopFilePath, desktopEntry, { mode: 0o755 });
+        logger.info(`Exported launcher for '${app.Name}' to ${desktopFilePath}`);
+
+        await this.#registerMimeTypes(desktopFilePath, mimeTypes);
+    }
+
+    async remove(appName: string) {
+        const desktopFilePath = this.#getDesktopFilePath(appName);
+        this.#removeIcon(appName);
+
+        if (!fs.existsSync(desktopFilePath)) return;
+
+        const wasHandler = fs.readFileSync(desktopFilePath, "utf-8").includes("\nMimeType=");
+        fs.rmSync(desktopFilePath);
+        logger.info(`Removed launcher for '${appName}' at ${desktopFilePath}`);
+
+        if (wasHandler) {
+            await this.#registerMimeTypes(desktopFilePath, []);
+        }
+    }
+
+    /**
+     * Removes every launcher exported for this VM
+     */
+    removeAll() {
+        if (!fs.existsSync(APPLICATIONS_DIR)) return;
+
+        for (const file of fs.readdirSync(APPLICATIONS_DIR)) {
+            if (!file.startsWith(`winboat-${this.#vm.id}-`) || !file.endsWith(".desktop")) continue;
+
+            const desktopFilePath = path.join(APPLICATIONS_DIR, file);
+            const desktopEntry = fs.readFileSync(desktopFilePath, "utf-8");
+
+            // Another VM's id might share the same prefix
+            if (!desktopEntry.split("\n").includes(`X-WinBoat-VM=${this.#vm.id}`)) continue;
+
+            const name = desktopEntry.split("\n").find(line => line.startsWith("Name="));
+            fs.rmSync(desktopFilePath);
+            logger.info(`Removed launcher at ${desktopFilePath}`);
+
+            if (name) {
+                this.#removeIcon(name.slice("Name=".length));
+            }
+        }
+    }
+
+    /**
+     * Keeps an exported launcher in line with its app, does nothing if the app was never exported
+     * @param app The app's current state
+     * @param mimeTypes The MIME types the app should open on the host
+     * @param oldName The app's previous name in case it has been renamed
+     */
+    async sync(app: WinApp, mimeTypes: string[], oldName: string = app.Name) {
+        if (!LauncherManager.isSupported || !this.isExported(oldName)) return;
+
+        try {
+            if (oldName !== app.Name) {
+                await this.remove(oldName);
+            }
+
+            await this.export(app, mimeTypes);
+        } catch (e) {
+            logger.error(`Failed to sync launcher for '${app.Name}'`);
+            logger.error(e);
+        }
+    }
+}
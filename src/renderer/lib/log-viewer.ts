@@ -0,0 +1,268 @@
+import { type WinboatVM } from "../../types";
+import { createNanoEvents, type Emitter } from "nanoevents";
+import { WINBOAT_DIR } from "./constants";
+import { getQemuNativeRuntimeDir, QEMU_NATIVE_STDERR_LOG, QEMU_NATIVE_STDOUT_LOG } from "./containers/qemu-native";
+
+const fs: typeof import("fs") = require("node:fs");
+const path: typeof import("path") = require("node:path");
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+// How much of a file is read when tailing starts, older lines are in the file (or its rotated predecessors)
+const INITIAL_TAIL_BYTES = 1024 * 1024;
+const POLL_INTERVAL_MS = 500;
+const NEWLINE = 0x0a;
+
+// `timestamp | LEVEL | message` as written by createLogger, timestamps are UTC
+const LOG_LINE_REGEX = /^(\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}) \| ([A-Z]+) \| /;
+const CLOCK_REGEX = /^(\d{1,2}):(\d{2})(?::(\d{2}))?$/;
+
+export type LogSource = {
+    name: string;
+    path: string;
+};
+
+/**
+ * A single line of a log file. Lines that don't start with a timestamp and level, like the rest of a stack trace,
+ * inherit them from the line before, so that filtering doesn't tear multi-line messages apart
+ */
+export type LogEntry = {
+    // Unique within a tail, only meant as a key
+    id: number;
+    text: string;
+    // ms since epoch, `null` if neither this line nor those before it have a timestamp (e.g. QEMU's output)
+    time: number | null;
+    level: string | null;
+};
+
+// consola's log types by how severe they are, 0 being the most severe
+const LEVEL_SEVERITY: Record<string, number> = {
+    FATAL: 0,
+    ERROR: 0,
+    FAIL: 0,
+    WARN: 1,
+    INFO: 2,
+    LOG: 2,
+    SUCCESS: 2,
+    START: 2,
+    READY: 2,
+    BOX: 2,
+    DEBUG: 3,
+    TRACE: 4,
+    VERBOSE: 4,
+};
+
+export const LogLevelFilters = {
+    all: { label: "All Levels", maxSeverity: Infinity },
+    info: { label: "Info and Above", maxSeverity: 2 },
+    warn: { label: "Warnings and Errors", maxSeverity: 1 },
+    error: { label: "Errors Only", maxSeverity: 0 },
+} as const;
+
+export type LogLevelFilter = keyof typeof LogLevelFilters;
+
+export const LogTimeRanges = {
+    all: { label: "All Time", duration: null },
+    "5m": { label: "Last 5 Minutes", duration: 5 * MINUTE_MS },
+    "15m": { label: "Last 15 Minutes", duration: 15 * MINUTE_MS },
+    "1h": { label: "Last Hour", duration: HOUR_MS },
+    "24h": { label: "Last 24 Hours", duration: 24 * HOUR_MS },
+} as const;
+
+export type LogTimeRange = keyof typeof LogTimeRanges;
+
+export type LogFilter = {
+    level: LogLevelFilter;
+    range: LogTimeRange;
+    // Case-insensitive, matched against the whole line
+    text: string;
+};
+
+/**
+ * Lists the logs worth looking at for the VM: every file-backed logger and, for the QEMU native runtime,
+ * QEMU's own output. Rotated files are left out
+ */
+export function getLogSources(vm: WinboatVM): LogSource[] {
+    const loggerSources = fs.existsSync(WINBOAT_DIR)
+        ? fs
+              .readdirSync(WINBOAT_DIR)
+              .filter(fileName => fileName.endsWith(".log"))
+              .sort()
+              .map(fileName => ({ name: path.basename(fileName, ".log"), path: path.join(WINBOAT_DIR, fileName) }))
+        : [];
+
+    const qemuSources = [
+        { name: "QEMU stdout", path: path.join(getQemuNativeRuntimeDir(vm), QEMU_NATIVE_STDOUT_LOG) },
+        { name: "QEMU stderr", path: path.join(getQemuNativeRuntimeDir(vm), QEMU_NATIVE_STDERR_LOG) },
+    ].filter(source => fs.existsSync(source.path));
+
+    return [...loggerSources, ...qemuSources];
+}
+
+/**
+ * Whether an entry passes the filter. Entries without a level or time always pass the respective filter,
+ * since it can't apply to them
+ */
+export function matchesLogFilter(entry: LogEntry, filter: LogFilter, now = Date.now()): boolean {
+    const maxSeverity = LogLevelFilters[filter.level].maxSeverity;
+    if (entry.level !== null && (LEVEL_SEVERITY[entry.level] ?? 0) > maxSeverity) return false;
+
+    const duration = LogTimeRanges[filter.range].duration;
+    if (duration !== null && entry.time !== null && entry.time < now - duration) return false;
+
+    return !filter.text || entry.text.toLowerCase().includes(filter.text.toLowerCase());
+}
+
+/**
+ * Finds the first entry logged at or after `clock` (`HH:MM[:SS]`, UTC like the timestamps in the files),
+ * on the most recent day the entries reach that time
+ * @returns `null` if `clock` can't be parsed or no entry is that recent
+ */
+export function findLogEntryAt(entries: LogEntry[], clock: string): LogEntry | null {
+    const match = clock.trim().match(CLOCK_REGEX);
+    const newest = entries.findLast(entry => entry.time !== null)?.time;
+    if (!match || newest === undefined || newest === null) return null;
+
+    const target = new Date(newest);
+    target.setUTCHours(Number(match[1]), Number(match[2]), Number(match[3] ?? 0), 0);
+    if (target.getTime() > newest) {
+        target.setUTCDate(target.getUTCDate() - 1);
+    }
+
+    return entries.find(entry => entry.time !== null && entry.time >= target.getTime()) ?? null;
+}
+
+interface LogTailEvents {
+    // Lines were appended to the file
+    appended: (entries: LogEntry[]) => void;
+    // The file was rotated, truncated or deleted, `entries` replace everything read before
+    reset: (entries: LogEntry[]) => void;
+}
+
+/**
+ * Follows a log file like `tail -f`, surviving rotation since the path is polled rather than the file watched
+ */
+export class LogTail {
+    readonly events: Emitter<LogTailEvents> = createNanoEvents<LogTailEvents>();
+    readonly #filePath: string;
+    #offset = 0;
+    #inode = 0;
+    // Bytes of a line that's still being written
+    #partial = Buffer.alloc(0);
+    #previous: LogEntry | null = null;
+    #nextId = 0;
+    #listener: ((curr: import("fs").Stats, prev: import("fs").Stats) => void) | null = null;
+
+    constructor(filePath: string) {
+        this.#filePath = filePath;
+    }
+
+    /**
+     * Starts following the file
+     * @returns The last lines of the file
+     */
+    start(): LogEntry[] {
+        this.stop();
+
+        const entries = this.#readTail();
+        this.#listener = () => this.#poll();
+        fs.watchFile(this.#filePath, { interval: POLL_INTERVAL_MS }, this.#listener);
+
+        return entries;
+    }
+
+    stop() {
+        if (!this.#listener) return;
+
+        fs.unwatchFile(this.#filePath, this.#listener);
+        this.#listener = null;
+    }
+
+    #readTail(): LogEntry[] {
+        this.#partial = Buffer.alloc(0);
+        this.#previous = null;
+        this.#offset = 0;
+        this.#inode = 0;
+
+        if (!fs.existsSync(this.#filePath)) return [];
+
+        const stats = fs.statSync(this.#filePath);
+        const start = Math.max(0, stats.size - INITIAL_TAIL_BYTES);
+        this.#inode = stats.ino;
+
+        let content = this.#read(start, stats.size);
+        // Starting in the middle of the file most likely means starting in the middle of a line
+        if (start > 0) {
+            content = content.subarray(content.indexOf(NEWLINE) + 1);
+        }
+
+        return this.#parse(content);
+    }
+
+    #poll() {
+        let stats: import("fs").Stats;
+        try {
+            stats = fs.statSync(this.#filePath);
+        } catch {
+            // Deleted, e.g. by resetting WinBoat. It comes back with the next line written
+            if (this.#offset > 0) this.events.emit("reset", this.#readTail());
+            return;
+        }
+
+        if (stats.ino !== this.#inode || stats.size < this.#offset) {
+            this.events.emit("reset", this.#readTail());
+            return;
+        }
+
+        if (stats.size === this.#offset) return;
+
+        const entries = this.#parse(this.#read(this.#offset, stats.size));
+        if (entries.length) this.events.emit("appended", entries);
+    }
+
+    #read(start: number, end: number): Buffer {
+        const buffer = Buffer.alloc(end - start);
+        const fd = fs.openSync(this.#filePath, "r");
+
+        try {
+            const bytesRead = fs.readSync(fd, buffer, 0, buffer.length, start);
+            this.#offset = start + bytesRead;
+            return buffer.subarray(0, bytesRead);
+        } finally {
+            fs.closeSync(fd);
+        }
+    }
+
+    /**
+     * Splits complete lines off the bytes read so far, the rest waits for the next read. Splitting on bytes
+     * rather than characters keeps multi-byte characters cut off by a read intact
+     */
+    #parse(content: Buffer): LogEntry[] {
+        const buffer = Buffer.concat([this.#partial, content]);
+        const end = buffer.lastIndexOf(NEWLINE);
+        if (end === -1) {
+            this.#partial = buffer;
+            return [];
+        }
+
+        this.#partial = buffer.subarray(end + 1);
+
+        return buffer
+            .subarray(0, end)
+            .toString("utf-8")
+            .split("\n")
+            .map(text => {
+                const match = text.match(LOG_LINE_REGEX);
+                const entry: LogEntry = {
+                    id: this.#nextId++,
+                    text,
+                    time: match ? Date.parse(`${match[1].replace(" ", "T")}Z`) : (this.#previous?.time ?? null),
+                    level: match ? match[2] : (this.#previous?.level ?? null),
+                };
+
+                this.#previous = entry;
+                return entry;
+            });
+    }
+}
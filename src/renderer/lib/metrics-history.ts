@@ -0,0 +1,254 @@
+import { type Metrics, type WinboatVM } from "../../types";
+import { createLogger } from "../utils/log";
+import { WINBOAT_DIR } from "./constants";
+import { createNanoEvents, type Emitter } from "nanoevents";
+
+const fs: typeof import("fs") = require("node:fs");
+const path: typeof import("path") = require("node:path");
+
+const logger = createLogger(path.join(WINBOAT_DIR, "metrics.log"));
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+// A day of minutes and a month of hours
+const MINUTE_BUCKET_CAPACITY = 24 * 60;
+const HOUR_BUCKET_CAPACITY = 30 * 24;
+
+export type MetricStat = {
+    avg: number;
+    max: number;
+};
+
+/**
+ * Aggregated samples of one minute or hour, all values are percentages except the totals
+ */
+export type MetricsBucket = {
+    time: number; // Start of the bucket in ms since epoch
+    samples: number;
+    cpu: MetricStat;
+    ram: MetricStat;
+    disk: MetricStat;
+    ramTotalMB: number;
+    diskTotalMB: number;
+};
+
+export const MetricsRanges = {
+    "15m": { label: "15 Minutes", duration: 15 * MINUTE_MS, resolution: "minute" },
+    "24h": { label: "24 Hours", duration: 24 * HOUR_MS, resolution: "minute" },
+    "7d": { label: "7 Days", duration: 7 * 24 * HOUR_MS, resolution: "hour" },
+} as const;
+
+export type MetricsRange = keyof typeof MetricsRanges;
+
+type MetricsHistoryFile = {
+    minute: MetricsBucket[];
+    hour: MetricsBucket[];
+    // The hour that's still being filled, so restarts don't punch holes into the hourly history
+    currentHour: MetricsBucket | null;
+};
+
+interface MetricsHistoryEvents {
+    // A minute bucket was completed and persisted
+    bucketClosed: (bucket: MetricsBucket) => void;
+}
+
+/**
+ * A fixed-size FIFO that drops its oldest entries once full
+ */
+class RingBuffer<T> {
+    readonly #items: (T | undefined)[];
+    #start = 0;
+    #length = 0;
+
+    constructor(readonly capacity: number) {
+        this.#items = new Array(capacity);
+    }
+
+    push(item: T) {
+        this.#items[(this.#start + this.#length) % this.capacity] = item;
+
+        if (this.#length < this.capacity) {
+            this.#length++;
+        } else {
+            this.#start = (this.#start + 1) % this.capacity;
+        }
+    }
+
+    toArray(): T[] {
+        return Array.from({ length: this.#length }, (_, i) => this.#items[(this.#start + i) % this.capacity]!);
+    }
+}
+
+function createBucket(time: number): MetricsBucket {
+    return {
+        time,
+        samples: 0,
+        cpu: { avg: 0, max: 0 },
+        ram: { avg: 0, max: 0 },
+        disk: { avg: 0, max: 0 },
+        ramTotalMB: 0,
+        diskTotalMB: 0,
+    };
+}
+
+function addToStat(stat: MetricStat, value: number, weight: number, totalWeight: number) {
+    stat.avg += ((value - stat.avg) * weight) / totalWeight;
+    stat.max = Math.max(stat.max, value);
+}
+
+/**
+ * Folds a sample (or a finer bucket, weighted by its sample count) into a bucket
+ */
+function addToBucket(bucket: MetricsBucket, sample: Omit<MetricsBucket, "time" | "samples">, weight: number) {
+    const totalWeight = bucket.samples + weight;
+
+    addToStat(bucket.cpu, sample.cpu.avg, weight, totalWeight);
+    addToStat(bucket.ram, sample.ram.avg, weight, totalWeight);
+    addToStat(bucket.disk, sample.disk.avg, weight, totalWeight);
+    bucket.cpu.max = Math.max(bucket.cpu.max, sample.cpu.max);
+    bucket.ram.max = Math.max(bucket.ram.max, sample.ram.max);
+    bucket.disk.max = Math.max(bucket.disk.max, sample.disk.max);
+    bucket.ramTotalMB = sample.ramTotalMB;
+    bucket.diskTotalMB = sample.diskTotalMB;
+    bucket.samples = totalWeight;
+}
+
+/**
+ * Records guest metrics into minute and hour buckets, persisted as ring buffers in the VM's directory
+ */
+export class MetricsHistory {
+    readonly emitter: Emitter<MetricsHistoryEvents> = createNanoEvents<MetricsHistoryEvents>();
+    readonly #filePath: string;
+    readonly #minuteBuckets = new RingBuffer<MetricsBucket>(MINUTE_BUCKET_CAPACITY);
+    readonly #hourBuckets = new RingBuffer<MetricsBucket>(HOUR_BUCKET_CAPACITY);
+    #currentMinute: MetricsBucket | null = null;
+    #currentHour: MetricsBucket | null = null;
+
+    constructor(vm: WinboatVM) {
+        this.#filePath = path.join(vm.dataDir, "metrics-history.json");
+        this.#readFromDisk();
+    }
+
+    #readFromDisk() {
+        if (!fs.existsSync(this.#filePath)) return;
+
+        try {
+            const history = JSON.parse(fs.readFileSync(this.#filePath, "utf-8")) as MetricsHistoryFile;
+            history.minute.forEach(bucket => this.#minuteBuckets.push(bucket));
+            history.hour.forEach(bucket => this.#hourBuckets.push(bucket));
+            this.#currentHour = history.currentHour ?? null;
+        } catch (e) {
+            logger.error(`Failed to read metrics history at ${this.#filePath}, starting over`);
+            logger.error(e);
+        }
+    }
+
+    #writeToDisk() {
+        const history: MetricsHistoryFile = {
+            minute: this.#minuteBuckets.toArray(),
+            hour: this.#hourBuckets.toArray(),
+            currentHour: this.#currentHour,
+        };
+
+        try {
+            fs.writeFileSync(this.#filePath, JSON.stringify(history));
+        } catch (e) {
+            logger.error(`Failed to write metrics history to ${this.#filePath}`);
+            logger.error(e);
+        }
+    }
+
+    /**
+     * Adds a `/metrics` sample to the history
+     */
+    record(metrics: Metrics, time = Date.now()) {
+        const minuteStart = time - (time % MINUTE_MS);
+        const hourStart = time - (time % HOUR_MS);
+
+        if (this.#currentMinute && this.#currentMinute.time !== minuteStart) {
+            this.#closeMinute();
+        }
+
+        if (this.#currentHour && this.#currentHour.time !== hourStart) {
+            this.#hourBuckets.push(this.#currentHour);
+            this.#currentHour = null;
+            this.#writeToDisk();
+        }
+
+        this.#currentMinute ??= createBucket(minuteStart);
+        this.#currentHour ??= createBucket(hourStart);
+
+        addToBucket(
+            this.#currentMinute,
+            {
+                cpu: { avg: metrics.cpu.usage, max: metrics.cpu.usage },
+                ram: { avg: metrics.ram.percentage, max: metrics.ram.percentage },
+                disk: { avg: metrics.disk.percentage, max: metrics.disk.percentage },
+                ramTotalMB: metrics.ram.total,
+                diskTotalMB: metrics.disk.total,
+            },
+            1,
+        );
+    }
+
+    #closeMinute() {
+        const minute = this.#currentMinute!;
+        this.#minuteBuckets.push(minute);
+        this.#currentMinute = null;
+
+        // Hours are built from minutes rather than raw samples, so they're never ahead of what's been persisted
+        addToBucket(this.#currentHour!, minute, minute.samples);
+
+        this.#writeToDisk();
+        this.emitter.emit("bucketClosed", minute);
+    }
+
+    /**
+     * Returns the buckets within the given range, oldest first, including the one still being filled
+     */
+    getRange(range: MetricsRange, now = Date.now()): MetricsBucket[] {
+        const { duration, resolution } = MetricsRanges[range];
+        const buckets =
+            resolution === "minute"
+                ? [...this.#minuteBuckets.toArray(), this.#currentMinute]
+                : [...this.#hourBuckets.toArray(), this.#currentHour];
+
+        return buckets.filter((bucket): bucket is MetricsBucket => !!bucket && bucket.time > now - duration);
+    }
+
+    toJSON(range: MetricsRange): string {
+        return JSON.stringify(this.getRange(range), null, 4);
+    }
+
+    toCSV(range: MetricsRange): string {
+        const header = [
+            "time",
+            "samples",
+            "cpu_avg",
+            "cpu_max",
+            "ram_avg",
+            "ram_max",
+            "ram_total_mb",
+            "disk_avg",
+            "disk_max",
+            "disk_total_mb",
+        ];
+        const rows = this.getRange(range).map(bucket =>
+            [
+                new Date(bucket.time).toISOString(),
+                bucket.samples,
+                bucket.cpu.avg.toFixed(2),
+                bucket.cpu.max.toFixed(2),
+                bucket.ram.avg.toFixed(2),
+                bucket.ram.max.toFixed(2),
+                bucket.ramTotalMB,
+                bucket.disk.avg.toFixed(2),
+                bucket.disk.max.toFixed(2),
+                bucket.diskTotalMB,
+            ].join(","),
+        );
+
+        return [header.join(","), ...rows].join("\n") + "\n";
+    }
+}
@@ -1,12 +1,17 @@
 import { createLogger } from "../utils/log";
 import { ComposePortMapper, Range } from "../utils/port";
 import { WinboatConfig } from "./config";
-import { WINBOAT_DIR } from "./constants";
+import { DEFAULT_VM_ID, WINBOAT_DIR } from "./constants";
 import { CommonPorts, createRuntime } from "./runtimes/common";
 import type { RuntimeManager } from "./runtimes/runtime";
 import { Winboat } from "./winboat";
+import { getVM, getVMs } from "./vms";
+import { listComposeBackups, readComposeBackup } from "./compose-backups";
+import { PASSWORD_PLACEHOLDER, SecretStore, setVMPassword } from "./secrets";
 
+const fs: typeof import("fs") = require("fs");
 const path: typeof import("path") = require("path");
+const YAML: typeof import("yaml") = require("yaml");
 const logger = createLogger(path.join(WINBOAT_DIR, "migrations.log"));
 
 /**
@@ -17,7 +22,11 @@ export async function performAutoMigrations(): Promise<void> {
     logger.info("[performAutoMigrations]: Starting automatic migrations");
 
     const wbConfig = WinboatConfig.getInstance(); // Get WinboatConfig instance
-    const containerManager = createRuntime(wbConfig.config.containerRuntime);
+    // Only the default VM can predate the migrations below
+    const containerManager = createRuntime(wbConfig.config.containerRuntime, getVM(DEFAULT_VM_ID)!);
+
+    // Compose files used to hold the Windows password in plaintext
+    await migratePasswordsToSecretStore();
     
     try {
         const composeMapper = new ComposePortMapper(Winboat.readCompose(containerManager.composeFilePath));
@@ -63,3 +72,43 @@ async function migrateComposePorts_Pre090(containerManager: RuntimeManager): Pro
     logger.info("[migrateComposePorts_Pre090]: Composing up WinBoat container");
     await containerManager.compose("up", ["--no-start"]);
 }
+
+/**
+ * Moves plaintext passwords from the compose files into the secret store, and scrubs them from the compose backups
+ */
+async function migratePasswordsToSecretStore(): Promise<void> {
+    const wbConfig = WinboatConfig.getInstance();
+
+    for (const vm of getVMs()) {
+        try {
+            const containerManager = createRuntime(wbConfig.config.containerRuntime, vm);
+            if (!fs.existsSync(containerManager.composeFilePath)) continue;
+
+            const compose = Winboat.readCompose(containerManager.composeFilePath);
+            const password = compose.services.windows.environment.PASSWORD;
+
+            if (password && password !== PASSWORD_PLACEHOLDER) {
+                const backendName = await SecretStore.getInstance().getBackendName();
+                logger.info(`[migratePasswordsToSecretStore]: Moving the password of VM '${vm.id}' to ${backendName}`);
+
+                await setVMPassword(vm, password);
+                // Writing the compose file replaces the password with a reference to the secret store
+                containerManager.writeCompose(compose);
+            }
+
+            for (const backup of listComposeBackups(vm)) {
+                const backupCompose = readComposeBackup(backup);
+                const backupPassword = backupCompose.services.windows.environment.PASSWORD;
+                if (!backupPassword || backupPassword === PASSWORD_PLACEHOLDER) continue;
+
+                backupCompose.services.windows.environment.PASSWORD = PASSWORD_PLACEHOLDER;
+                fs.writeFileSync(backup.path, YAML.stringify(backupCompose, { nullStr: "" }));
+                logger.info(`[migratePasswordsToSecretStore]: Scrubbed the password from ${backup.path}`);
+            }
+        } catch (e) {
+            // The plaintext password keeps working, so there's no need to hold up the other migrations
+            logger.error(`[migratePasswordsToSecretStore]: Failed to migrate the password of VM '${vm.id}'`);
+            logger.error(e);
+        }
+    }
+}
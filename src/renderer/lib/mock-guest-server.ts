@@ -0,0 +1,208 @@
+import { type GuestServerVersion, type Metrics, type WinApp } from "../../types";
+import { type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import { AppIcons, DEFAULT_ICON } from "../data/appicons";
+
+const http: typeof import("http") = require("node:http");
+
+export type MockGuestState = {
+    apps: WinApp[];
+    version: GuestServerVersion;
+    metrics: Metrics;
+    rdpConnected: boolean;
+    // The password `/update` accepts, `null` means no auth hash has been enrolled yet
+    password: string | null;
+    authHashSet: boolean;
+    // Delays every response, handy for exercising timeouts
+    latencyMs: number;
+};
+
+type MockRoute = (req: IncomingMessage, res: ServerResponse, form: Record<string, string>) => void;
+
+function createDefaultState(): MockGuestState {
+    return {
+        apps: [
+            {
+                Name: "Notepad",
+                Path: "C:\\Windows\\System32\\notepad.exe",
+                Args: "",
+                Icon: AppIcons[DEFAULT_ICON],
+                Source: "system",
+            },
+            {
+                Name: "Paint",
+                Path: "C:\\Windows\\System32\\mspaint.exe",
+                Args: "",
+                Icon: AppIcons[DEFAULT_ICON],
+                Source: "system",
+            },
+        ],
+        version: {
+            version: import.meta.env.VITE_APP_VERSION,
+            commit_hash: "mock",
+            build_time: new Date(0).toISOString(),
+            guest_arch: "amd64",
+        },
+        metrics: {
+            cpu: { usage: 12, frequency: 2700 },
+            ram: { used: 2048, total: 4096, percentage: 50 },
+            disk: { used: 30720, total: 65536, percentage: 47 },
+        },
+        rdpConnected: false,
+        password: null,
+        authHashSet: false,
+        latencyMs: 0,
+    };
+}
+
+/**
+ * Extracts the text fields of a multipart/form-data body, files are left out
+ */
+function parseMultipartFields(req: IncomingMessage, body: Buffer): Record<string, string> {
+    const boundary = req.headers["content-type"]?.match(/boundary=(.+)$/)?.[1];
+    if (!boundary) return {};
+
+    const fields: Record<string, string> = {};
+
+    for (const part of body.toString("latin1").split(`--${boundary}`)) {
+        const [head, ...rest] = part.split("\r\n\r\n");
+        const name = head.match(/name="([^"]+)"/)?.[1];
+
+        if (!name || head.includes("filename=")) continue;
+        fields[name] = Buffer.from(rest.join("\r\n\r\n").replace(/\r\n$/, ""), "latin1").toString("utf-8");
+    }
+
+    return fields;
+}
+
+function sendJSON(res: ServerResponse, payload: unknown) {
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(payload));
+}
+
+function sendError(res: ServerResponse, status: number, message: string) {
+    res.writeHead(status, { "Content-Type": "text/plain" });
+    res.end(message);
+}
+
+/**
+ * An in-process stand-in for the WinBoat Guest Server, so the host side can be exercised without a Windows VM.
+ * Mirrors the routes of guest_server/main.go
+ */
+export class MockGuestServer {
+    state: MockGuestState = createDefaultState();
+    #server: Server | null = null;
+    // Status codes to answer the next request to an endpoint with, see `failNext`
+    #failures = new Map<string, number[]>();
+
+    readonly #routes: Record<string, MockRoute> = {
+        "GET /health": (_req, res) => sendJSON(res, { status: "ok" }),
+        "GET /version": (_req, res) => sendJSON(res, this.state.version),
+        "GET /metrics": (_req, res) => sendJSON(res, this.state.metrics),
+        "GET /rdp/status": (_req, res) => sendJSON(res, { rdpConnected: this.state.rdpConnected }),
+        "GET /apps": (_req, res) => sendJSON(res, this.state.apps),
+        "POST /get-icon": (_req, res, form) => {
+            if (!form.path) return sendError(res, 400, "path is required");
+
+            res.writeHead(200, { "Content-Type": "text/plain" });
+            res.end(this.state.apps.find(app => app.Path === form.path)?.Icon ?? AppIcons[DEFAULT_ICON]);
+        },
+        "POST /update": (_req, res, form) => {
+            if (!form.password) return sendError(res, 401, "Unauthorized: password is required");
+            if (this.state.password !== null && form.password !== this.state.password) {
+                return sendError(res, 401, "Unauthorized: invalid password");
+            }
+
+            sendJSON(res, {
+                status: "updating",
+                temp_path: "C:\\Temp\\mock-update",
+                filename: "winboat_guest_server.zip",
+            });
+        },
+        "POST /disk/extend": (_req, res) => {
+            const previousSize = this.state.metrics.disk.total * 1024 * 1024;
+            sendJSON(res, { extended: false, previous_size: previousSize, new_size: previousSize });
+        },
+        "POST /auth/set-hash": (_req, res, form) => {
+            if (this.state.authHashSet) return sendError(res, 400, "Auth hash already set");
+            if (!form.authHash) return sendError(res, 400, "authHash is required");
+
+            this.state.authHashSet = true;
+            sendJSON(res, { status: "ok" });
+        },
+        "POST /auth/rotate": (_req, res, form) => {
+            if (!form.password) return sendError(res, 401, "Unauthorized: password is required");
+            if (this.state.password !== null && form.password !== this.state.password) {
+                return sendError(res, 401, "Unauthorized: invalid password");
+            }
+            if (!form.username || !form.newPassword || !form.newAuthHash) {
+                return sendError(res, 400, "username, newPassword and newAuthHash are required");
+            }
+
+            this.state.password = form.newPassword;
+            this.state.authHashSet = true;
+            sendJSON(res, { status: "ok" });
+        },
+    };
+
+    get url(): string | undefined {
+        const address = this.#server?.address();
+        return address && typeof address === "object" ? `http://127.0.0.1:${address.port}` : undefined;
+    }
+
+    /**
+     * Starts listening on the given port, or a random free one
+     * @returns The URL of the server
+     */
+    async start(port = 0): Promise<string> {
+        if (this.#server) return this.url!;
+
+        const server = http.createServer((req, res) => this.#handle(req, res));
+        this.#server = server;
+
+        await new Promise<void>((resolve, reject) => {
+            server.once("error", reject);
+            server.listen(port, "127.0.0.1", resolve);
+        });
+
+        return this.url!;
+    }
+
+    async stop() {
+        const server = this.#server;
+        if (!server) return;
+
+        this.#server = null;
+        await new Promise(resolve => server.close(resolve));
+    }
+
+    /**
+     * Makes the next requests to an endpoint fail with the given status codes, one per request
+     */
+    failNext(endpoint: string, ...statuses: number[]) {
+        this.#failures.set(endpoint, [...(this.#failures.get(endpoint) ?? []), ...statuses]);
+    }
+
+    reset() {
+        this.state = createDefaultState();
+        this.#failures.clear();
+    }
+
+    #handle(req: IncomingMessage, res: ServerResponse) {
+        const chunks: Buffer[] = [];
+
+        req.on("data", (chunk: Buffer) => chunks.push(chunk));
+        req.on("end", () => {
+            setTimeout(() => {
+                const endpoint = req.url?.split("?")[0] ?? "/";
+                const failure = this.#failures.get(endpoint)?.shift();
+
+                if (failure) return sendError(res, failure, `Mock failure for ${endpoint}`);
+
+                const route = this.#routes[`${req.method} ${endpoint}`];
+                if (!route) return sendError(res, 404, "404 page not found");
+
+                route(req, res, parseMultipartFields(req, Buffer.concat(chunks)));
+            }, this.state.latencyMs);
+        });
+    }
+}
@@ -27,7 +27,7 @@ type QMPCommandInfo = {
     name: string;
 };
 
-type QMPStatusInfo = {
+export type QMPStatusInfo = {
     running: boolean;
     status: string;
 };
@@ -47,17 +47,89 @@ type QMPBlockInfo = {
     locked: boolean;
     tray_open?: boolean;
     io_status?: object;
-    inserted?: object;
+    inserted?: QMPBlockDeviceInfo;
+};
+
+type QMPBlockDeviceInfo = {
+    "node-name"?: string;
+    drv: string;
+    ro: boolean;
+    file: string;
+    image?: {
+        snapshots?: QMPSnapshotInfo[];
+    };
+};
+
+export type QMPSnapshotInfo = {
+    id: string;
+    name: string;
+    "vm-state-size": number;
+    "date-sec": number;
+    "date-nsec": number;
+    "vm-clock-sec": number;
+    "vm-clock-nsec": number;
+};
+
+export type QMPJobInfo = {
+    id: string;
+    type: string;
+    status:
+        | "created"
+        | "running"
+        | "paused"
+        | "ready"
+        | "standby"
+        | "waiting"
+        | "pending"
+        | "aborting"
+        | "concluded"
+        | "null";
+    "current-progress": number;
+    "total-progress": number;
+    error?: string;
+};
+
+type QMPDriveBackupOptions = {
+    "job-id": string;
+    // The device or node name of the disk to back up
+    device: string;
+    // Where QEMU creates the copy, as seen by QEMU
+    target: string;
+    format: string;
+    sync: "full" | "top" | "none";
+    mode: "absolute-paths" | "existing";
+    "auto-dismiss"?: boolean;
+};
+
+type QMPTransactionAction = {
+    type: "drive-backup";
+    data: QMPDriveBackupOptions;
 };
 
 type QMPError = {
-    error: object;
+    error: { class: string; desc: string };
 };
 
 type QMPReturn<T> = T extends never ? never : { return: T } | QMPError;
 
-type QMPCommandWithArgs = "human-monitor-command" | "device_add" | "device_del" | "device-list-properties";
-type QMPCommandNoArgs = "qmp_capabilities" | "query-commands" | "query-status" | "query-block";
+type QMPCommandWithArgs =
+    | "human-monitor-command"
+    | "device_add"
+    | "device_del"
+    | "device-list-properties"
+    | "snapshot-save"
+    | "snapshot-load"
+    | "snapshot-delete"
+    | "job-cancel"
+    | "job-dismiss"
+    | "transaction";
+type QMPCommandNoArgs =
+    | "qmp_capabilities"
+    | "query-commands"
+    | "query-status"
+    | "query-block"
+    | "query-jobs"
+    | "system_powerdown";
 type QMPCommand = QMPCommandWithArgs | QMPCommandNoArgs;
 
 type QMPArgumentProps = {
@@ -70,6 +142,11 @@ type QMPArgumentProps = {
     hostaddr: number;
     hostdevice: string;
     typename: string;
+    "job-id": string;
+    tag: string;
+    vmstate: string;
+    devices: string[];
+    actions: QMPTransactionAction[];
 };
 
 type QMPArgument<T extends keyof QMPArgumentProps> =
@@ -86,7 +163,15 @@ type QMPCommandExpectedArgument<T extends QMPCommand> = T extends "human-monitor
         ? QMPArgument<"id">
         : T extends "device-list-properties"
           ? QMPArgument<"typename">
-          : never;
+          : T extends "snapshot-save" | "snapshot-load"
+            ? QMPArgument<"job-id" | "tag" | "vmstate" | "devices">
+            : T extends "snapshot-delete"
+              ? QMPArgument<"job-id" | "tag" | "devices">
+              : T extends "job-cancel" | "job-dismiss"
+                ? QMPArgument<"id">
+                : T extends "transaction"
+                  ? QMPArgument<"actions">
+                  : never;
 
 // TODO: determine return type of device_add and device_del
 export type QMPResponse<T extends QMPCommand> = QMPReturn<
@@ -106,12 +191,31 @@ export type QMPResponse<T extends QMPCommand> = QMPReturn<
                     ? QMPObjectPropertyInfo[]
                     : T extends "query-block"
                       ? QMPBlockInfo[]
-                      : never
+                      : T extends "query-jobs"
+                        ? QMPJobInfo[]
+                        : T extends
+                                | "system_powerdown"
+                                | "snapshot-save"
+                                | "snapshot-load"
+                                | "snapshot-delete"
+                                | "job-cancel"
+                                | "job-dismiss"
+                                | "transaction"
+                          ? Record<string, never>
+                          : never
 >;
 
+export type QMPEvent = {
+    event: string;
+    data?: Record<string, unknown>;
+    timestamp: { seconds: number; microseconds: number };
+};
+
 export class QMPManager {
     private static readonly IS_ALIVE_TIMEOUT = 2000;
     qmpSocket: Socket;
+    // Commands are tagged with an ID that QEMU echoes in the response, so concurrent commands get their own responses
+    private nextCommandId = 0;
 
     /**
      * Please use {@link QMPManager.createConnection} instead.
@@ -132,7 +236,6 @@ export class QMPManager {
     static async createConnection(host: string, port: number): Promise<QMPManager> {
         return new Promise((resolve, reject) => {
             const socket = createConnection({ host, port }, () => {
-                socket.once("error", reject);
                 socket.once("data", data => {
                     try {
                         const response = JSON.parse(data.toString());
@@ -149,6 +252,9 @@ export class QMPManager {
                     }
                 });
             });
+
+            // Also covers failing to connect in the first place, e.g. because nothing listens on the port
+            socket.once("error", reject);
         });
     }
 
@@ -169,9 +275,11 @@ export class QMPManager {
         command: C,
         qmpArgument?: QMPCommandExpectedArgument<C>,
     ): Promise<QMPResponse<C>> {
+        const id = `winboat-${this.nextCommandId++}`;
         const message = {
             execute: command,
             ...(qmpArgument && { arguments: qmpArgument }),
+            id,
         };
 
         return new Promise<QMPResponse<C>>((resolve, reject) => {
@@ -181,19 +289,31 @@ export class QMPManager {
                     reject(err);
                 }
 
+                // Messages are newline delimited, but a chunk may end in the middle of one (e.g. while jobs emit plenty of events)
+                let pending = "";
+
                 // This callback processes data received from the QMP socket
                 const receiveData = (data: Buffer) => {
-                    try {
-                        const parsedData = JSON.parse(data.toString());
-                        if ("event" in parsedData) return; // In case we get notified of an event (for example NETDEV_STREAM_CONNECTED), we ignore it
+                    const lines = (pending + data.toString()).split("\n");
+                    pending = lines.pop()!;
+
+                    for (const line of lines) {
+                        if (!line.trim()) continue;
+
+                        let message;
+                        try {
+                            message = JSON.parse(line);
+                        } catch {
+                            // The tail of a message that started before we listened
+                            continue;
+                        }
+
+                        // Events (for example NETDEV_STREAM_CONNECTED) and the responses to other commands are ignored
+                        if (message.id !== id) continue;
 
                         // We remove our callback from the data event when we get the response
                         this.qmpSocket.off("data", receiveData);
-                        resolve(JSON.parse(data.toString()));
-                    } catch (e) {
-                        logger.error(e);
-                        logger.error(`QMP request 'data.toString()': ${data.toString()}`);
-                        reject(e);
+                        return resolve(message);
                     }
                 };
 
@@ -203,6 +323,36 @@ export class QMPManager {
         });
     }
 
+    /**
+     * Calls `callback` whenever QEMU emits the given event (e.g. `SHUTDOWN`)
+     *
+     * @returns A function that removes the listener again
+     *
+     */
+    onEvent(event: string, callback: (qmpEvent: QMPEvent) => void): () => void {
+        // Events and responses are newline delimited, and a chunk may hold several or end in the middle of one
+        let pending = "";
+
+        const receiveData = (data: Buffer) => {
+            const lines = (pending + data.toString()).split("\n");
+            pending = lines.pop()!;
+
+            for (const line of lines) {
+                if (!line.trim()) continue;
+
+                try {
+                    const message = JSON.parse(line);
+                    if (message.event === event) callback(message);
+                } catch {
+                    // The tail of a message that started before we listened
+                }
+            }
+        };
+
+        this.qmpSocket.on("data", receiveData);
+        return () => this.qmpSocket.off("data", receiveData);
+    }
+
     /**
      * Checks whether the socket is still alive, then queries the status of the QMP connection.
      *
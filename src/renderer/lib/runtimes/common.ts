@@ -11,6 +11,10 @@ import {
     type QemuNativeSpecs,
 } from "../containers/common";
 import { ContainerStatus, type ContainerManager } from "../containers/container";
+import { type WinboatVM } from "../../../types";
+import { createDefaultDockerCompose } from "../../data/docker";
+import { createDefaultPodmanCompose } from "../../data/podman";
+import { QEMU_NATIVE_DEFAULT_COMPOSE } from "../../data/qemu-native";
 
 // Specs
 export { type DockerSpecs, type PodmanSpecs, type QemuNativeSpecs };
@@ -53,8 +57,21 @@ export async function getRuntimeSpecs<T extends RuntimeKind>(type: T): Promise<
     return (await getContainerSpecsImpl(type)) as any;
 }
 
-export function createRuntime<T extends RuntimeKind>(type: T): RuntimeManager {
-    return createContainerImpl(type);
+export function createRuntime<T extends RuntimeKind>(type: T, vm: WinboatVM): RuntimeManager {
+    return createContainerImpl(type, vm);
+}
+
+/**
+ * Returns the container name the runtime's default compose uses, which is what the default VM is named
+ */
+export function getDefaultContainerName(type: RuntimeKind): string {
+    const defaultCompose = {
+        [ContainerRuntimes.DOCKER]: createDefaultDockerCompose,
+        [ContainerRuntimes.PODMAN]: createDefaultPodmanCompose,
+        [ContainerRuntimes.QEMU_NATIVE]: () => QEMU_NATIVE_DEFAULT_COMPOSE,
+    }[type]();
+
+    return defaultCompose.services.windows.container_name;
 }
 
 export function getSupportedRuntimeKinds(): RuntimeKind[] {
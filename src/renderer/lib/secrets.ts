@@ -0,0 +1,277 @@
+import { type WinboatVM } from "../../types";
+import { createLogger } from "../utils/log";
+import { registerSecret } from "../utils/redact";
+import { IS_LINUX, WINBOAT_DIR } from "./constants";
+import { execFileAsync } from "./exec-helper";
+
+const fs: typeof import("fs") = require("node:fs");
+const path: typeof import("path") = require("node:path");
+const crypto: typeof import("crypto") = require("node:crypto");
+
+const logger = createLogger(path.join(WINBOAT_DIR, "secrets.log"));
+
+// Compose files reference the Windows password through this variable, which is only set for compose commands
+export const PASSWORD_ENV_VAR = "WINBOAT_PASSWORD";
+export const PASSWORD_PLACEHOLDER = `\${${PASSWORD_ENV_VAR}}`;
+
+// Every WinBoat secret is stored under this service attribute in the Secret Service
+const SECRET_SERVICE = "winboat";
+const PROBE_KEY = "availability-probe";
+
+const SECRETS_FILE = path.join(WINBOAT_DIR, "secrets.enc");
+const SECRETS_KEY_FILE = path.join(WINBOAT_DIR, "secrets.key");
+const CIPHER = "aes-256-gcm";
+
+export class SecretStoreError extends Error {}
+
+export interface SecretBackend {
+    readonly name: string;
+    isAvailable(): Promise<boolean>;
+    // Resolves with `null` if there is no secret under `key`
+    get(key: string): Promise<string | null>;
+    set(key: string, value: string): Promise<void>;
+    delete(key: string): Promise<void>;
+}
+
+/**
+ * Stores secrets in the desktop's keyring (GNOME Keyring, KWallet, KeePassXC, ...) through libsecret's `secret-tool`
+ */
+class LibsecretBackend implements SecretBackend {
+    readonly name = "Secret Service";
+
+    async isAvailable(): Promise<boolean> {
+        if (!IS_LINUX) return false;
+
+        // A lookup can't tell a missing secret from a missing keyring, so a full round trip it is
+        try {
+            await this.set(PROBE_KEY, PROBE_KEY);
+            const available = (await this.get(PROBE_KEY)) === PROBE_KEY;
+            await this.delete(PROBE_KEY);
+
+            return available;
+        } catch (e) {
+            logger.info("The Secret Service is not available");
+            logger.info(e);
+            return false;
+        }
+    }
+
+    async get(key: string): Promise<string | null> {
+        try {
+            const { stdout } = await execFileAsync("secret-tool", [
+                "lookup",
+                "service",
+                SECRET_SERVICE,
+                "account",
+                key,
+            ]);
+            return stdout;
+        } catch {
+            // 'secret-tool' exits with 1 if there's no such secret
+            return null;
+        }
+    }
+
+    async set(key: string, value: string): Promise<void> {
+        // The secret is read from stdin, so it never shows up in a process list
+        const store = execFileAsync("secret-tool", [
+            "store",
+            `--label=WinBoat ${key}`,
+            "service",
+            SECRET_SERVICE,
+            "account",
+            key,
+        ]);
+        store.child.stdin!.end(value);
+
+        await store;
+    }
+
+    async delete(key: string): Promise<void> {
+        await execFileAsync("secret-tool", ["clear", "service", SECRET_SERVICE, "account", key]);
+    }
+}
+
+type EncryptedSecret = {
+    iv: string;
+    tag: string;
+    data: string;
+};
+
+/**
+ * Stores secrets AES-256-GCM encrypted in {@link SECRETS_FILE}, with the key in a separate file only the user can read.
+ * This keeps secrets out of compose files, logs and backups, but anyone who can read the user's files can decrypt them
+ */
+class EncryptedFileBackend implements SecretBackend {
+    readonly name = "Encrypted file";
+
+    async isAvailable(): Promise<boolean> {
+        return true;
+    }
+
+    async get(key: string): Promise<string | null> {
+        const secret = this.#readSecrets()[key];
+        if (!secret) return null;
+
+        try {
+            const decipher = crypto.createDecipheriv(CIPHER, this.#getKey(), Buffer.from(secret.iv, "base64"));
+            decipher.setAuthTag(Buffer.from(secret.tag, "base64"));
+
+            return Buffer.concat([decipher.update(Buffer.from(secret.data, "base64")), decipher.final()]).toString(
+                "utf-8",
+            );
+        } catch (e) {
+            throw new SecretStoreError(`Failed to decrypt secret '${key}', was ${SECRETS_KEY_FILE} replaced?`, {
+                cause: e,
+            });
+        }
+    }
+
+    async set(key: string, value: string): Promise<void> {
+        const iv = crypto.randomBytes(12);
+        const cipher = crypto.createCipheriv(CIPHER, this.#getKey(), iv);
+        const data = Buffer.concat([cipher.update(value, "utf-8"), cipher.final()]);
+
+        this.#writeSecrets({
+            ...this.#readSecrets(),
+            [key]: {
+                iv: iv.toString("base64"),
+                tag: cipher.getAuthTag().toString("base64"),
+                data: data.toString("base64"),
+            },
+        });
+    }
+
+    async delete(key: string): Promise<void> {
+        const secrets = this.#readSecrets();
+        if (!(key in secrets)) return;
+
+        delete secrets[key];
+        this.#writeSecrets(secrets);
+    }
+
+    #getKey(): Buffer {
+        if (!fs.existsSync(SECRETS_KEY_FILE)) {
+            fs.mkdirSync(WINBOAT_DIR, { recursive: true });
+            // 'wx' fails if the file showed up in the meantime, rather than overwriting a key that's in use
+            fs.writeFileSync(SECRETS_KEY_FILE, crypto.randomBytes(32), { mode: 0o600, flag: "wx" });
+            logger.info(`Created secrets key at ${SECRETS_KEY_FILE}`);
+        }
+
+        return fs.readFileSync(SECRETS_KEY_FILE);
+    }
+
+    #readSecrets(): Record<string, EncryptedSecret> {
+        if (!fs.existsSync(SECRETS_FILE)) return {};
+
+        return JSON.parse(fs.readFileSync(SECRETS_FILE, "utf-8"));
+    }
+
+    #writeSecrets(secrets: Record<string, EncryptedSecret>) {
+        fs.mkdirSync(WINBOAT_DIR, { recursive: true });
+        fs.writeFileSync(SECRETS_FILE, JSON.stringify(secrets, null, 4), { mode: 0o600 });
+    }
+}
+
+/**
+ * Keeps secrets in the first available backend, the system keyring if there is one and an encrypted file otherwise
+ */
+export class SecretStore {
+    private static instance: SecretStore | null = null;
+    readonly #backends: SecretBackend[] = [new LibsecretBackend(), new EncryptedFileBackend()];
+    #availableBackends: Promise<SecretBackend[]> | null = null;
+
+    static getInstance() {
+        SecretStore.instance ??= new SecretStore();
+        return SecretStore.instance;
+    }
+
+    /**
+     * The name of the backend new secrets get stored in
+     */
+    async getBackendName(): Promise<string> {
+        return (await this.#getAvailableBackends())[0].name;
+    }
+
+    /**
+     * Looks `key` up in every available backend, in case the keyring was unavailable when it was stored
+     */
+    async get(key: string): Promise<string | null> {
+        for (const backend of await this.#getAvailableBackends()) {
+            const value = await backend.get(key);
+            if (value !== null) return value;
+        }
+
+        return null;
+    }
+
+    /**
+     * Stores `value` in the preferred backend and removes stale copies from the others
+     * @throws {SecretStoreError} If the secret couldn't be stored
+     */
+    async set(key: string, value: string): Promise<void> {
+        const [preferred, ...others] = await this.#getAvailableBackends();
+
+        try {
+            await preferred.set(key, value);
+        } catch (e) {
+            throw new SecretStoreError(`Failed to store secret '${key}' in the ${preferred.name} backend`, {
+                cause: e,
+            });
+        }
+
+        logger.info(`Stored secret '${key}' in the ${preferred.name} backend`);
+        await Promise.all(others.map(backend => this.#deleteFrom(backend, key)));
+    }
+
+    async delete(key: string): Promise<void> {
+        await Promise.all((await this.#getAvailableBackends()).map(backend => this.#deleteFrom(backend, key)));
+        logger.info(`Deleted secret '${key}'`);
+    }
+
+    async #deleteFrom(backend: SecretBackend, key: string) {
+        try {
+            await backend.delete(key);
+        } catch (e) {
+            logger.warn(`Failed to delete secret '${key}' from the ${backend.name} backend`);
+            logger.warn(e);
+        }
+    }
+
+    async #getAvailableBackends(): Promise<SecretBackend[]> {
+        this.#availableBackends ??= (async () => {
+            const available = [];
+            for (const backend of this.#backends) {
+                if (await backend.isAvailable()) available.push(backend);
+            }
+
+            logger.info(`Available secret backends: ${available.map(backend => backend.name).join(", ")}`);
+            return available;
+        })();
+
+        return await this.#availableBackends;
+    }
+}
+
+function getPasswordKey(vm: WinboatVM): string {
+    return `vm-${vm.id}-password`;
+}
+
+/**
+ * Returns the password of the VM's Windows account, `null` if none was stored yet
+ */
+export async function getVMPassword(vm: WinboatVM): Promise<string | null> {
+    const password = await SecretStore.getInstance().get(getPasswordKey(vm));
+    if (password !== null) registerSecret(password);
+
+    return password;
+}
+
+export async function setVMPassword(vm: WinboatVM, password: string): Promise<void> {
+    registerSecret(password);
+    await SecretStore.getInstance().set(getPasswordKey(vm), password);
+}
+
+export async function deleteVMPassword(vm: WinboatVM): Promise<void> {
+    await SecretStore.getInstance().delete(getPasswordKey(vm));
+}
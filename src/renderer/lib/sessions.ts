@@ -0,0 +1,142 @@
+import { type WinApp } from "../../types";
+import { InternalApps } from "../data/internalapps";
+import { createLogger } from "../utils/log";
+import { WINBOAT_DIR } from "./constants";
+import { execFileAsync } from "./exec-helper";
+import { type FreeRDPError } from "./freerdp-errors";
+import { getAppWMClass } from "./launchers";
+import { ref, type Ref } from "vue";
+
+const path: typeof import("path") = require("node:path");
+
+const logger = createLogger(path.join(WINBOAT_DIR, "sessions.log"));
+
+// Older abnormal exits are dropped, they're still in the logs
+const MAX_ABNORMAL_EXITS = 10;
+
+/**
+ * A FreeRDP process launched for an app, which runs for as long as the app's window is open
+ */
+export type FreeRDPSession = {
+    // Unique within a session manager
+    id: number;
+    // `null` if the process couldn't be spawned
+    pid: number | null;
+    appName: string;
+    appPath: string;
+    // The class FreeRDP gives the app's window, `null` for the desktop, which keeps FreeRDP's own
+    wmClass: string | null;
+    startedAt: number;
+};
+
+export type AbnormalExit = {
+    session: FreeRDPSession;
+    endedAt: number;
+    reason: string;
+    // The mapped exit code or error, `null` if FreeRDP didn't exit on its own (e.g. it crashed)
+    error: FreeRDPError | null;
+};
+
+/**
+ * Keeps track of the FreeRDP processes launched for apps, so that they can be listed, focused and closed
+ */
+export class SessionManager {
+    readonly running: Ref<FreeRDPSession[]> = ref([]);
+    // Sessions that failed or were terminated without the user asking for it, newest first
+    readonly abnormalExits: Ref<AbnormalExit[]> = ref([]);
+    readonly #children = new Map<number, import("child_process").ChildProcess>();
+    // Sessions the user closed or killed, their signals aren't abnormal
+    readonly #closeRequested = new Set<number>();
+    #nextId = 0;
+
+    /**
+     * Starts tracking the FreeRDP process of an app, it's untracked by itself once the process exits
+     */
+    track(app: WinApp, child: import("child_process").ChildProcess): FreeRDPSession {
+        const session: FreeRDPSession = {
+            id: this.#nextId++,
+            pid: child.pid ?? null,
+            appName: app.Name,
+            appPath: app.Path,
+            wmClass: app.Path === InternalApps.WINDOWS_DESKTOP ? null : getAppWMClass(app),
+            startedAt: Date.now(),
+        };
+
+        this.#children.set(session.id, child);
+        this.running.value = [...this.running.value, session];
+
+        const untrack = () => {
+            this.#children.delete(session.id);
+            this.running.value = this.running.value.filter(running => running.id !== session.id);
+        };
+        child.once("exit", untrack);
+        child.once("error", untrack);
+
+        logger.info(`Tracking FreeRDP session of '${app.Name}' (pid ${session.pid})`);
+        return session;
+    }
+
+    /**
+     * Returns the running session of an app, the oldest one if there are several
+     */
+    findByApp(appName: string): FreeRDPSession | undefined {
+        return this.running.value.find(session => session.appName === appName);
+    }
+
+    /**
+     * Whether the user closed or killed the session, rather than it ending on its own
+     */
+    wasCloseRequested(session: FreeRDPSession): boolean {
+        return this.#closeRequested.has(session.id);
+    }
+
+    /**
+     * Brings the session's window to the front, which needs `wmctrl` and an X11 (or XWayland) window
+     */
+    async focus(session: FreeRDPSession) {
+        if (!session.wmClass) {
+            throw new Error(`The window of '${session.appName}' can't be told apart from other FreeRDP windows`);
+        }
+
+        try {
+            await execFileAsync("wmctrl", ["-x", "-a", session.wmClass]);
+        } catch (e) {
+            logger.warn(`Failed to focus '${session.appName}'`);
+            logger.warn(e);
+            throw new Error(`Couldn't focus '${session.appName}', make sure wmctrl is installed`);
+        }
+    }
+
+    /**
+     * Asks FreeRDP to disconnect, which closes the app's window
+     */
+    close(session: FreeRDPSession) {
+        this.#signal(session, "SIGTERM");
+    }
+
+    /**
+     * Kills FreeRDP right away, for sessions that don't react to being closed
+     */
+    kill(session: FreeRDPSession) {
+        this.#signal(session, "SIGKILL");
+    }
+
+    reportAbnormalExit(session: FreeRDPSession, reason: string, error: FreeRDPError | null = null) {
+        logger.warn(`FreeRDP session of '${session.appName}' ended abnormally: ${reason}`);
+        const abnormalExit: AbnormalExit = { session, endedAt: Date.now(), reason, error };
+        this.abnormalExits.value = [abnormalExit, ...this.abnormalExits.value].slice(0, MAX_ABNORMAL_EXITS);
+    }
+
+    dismissAbnormalExit(sessionId: number) {
+        this.abnormalExits.value = this.abnormalExits.value.filter(abnormal => abnormal.session.id !== sessionId);
+    }
+
+    #signal(session: FreeRDPSession, signal: NodeJS.Signals) {
+        const child = this.#children.get(session.id);
+        if (!child) return;
+
+        this.#closeRequested.add(session.id);
+        child.kill(signal);
+        logger.info(`Sent ${signal} to the FreeRDP session of '${session.appName}' (pid ${session.pid})`);
+    }
+}
@@ -0,0 +1,137 @@
+import { type ComposeConfig } from "../../types";
+import { createLogger } from "../utils/log";
+import { WINBOAT_DIR } from "./constants";
+
+const fs: typeof import("fs") = require("node:fs");
+const path: typeof import("path") = require("node:path");
+const os: typeof import("os") = require("node:os");
+
+const logger = createLogger(path.join(WINBOAT_DIR, "sharing.log"));
+
+// Where the shared folder ends up inside the container, and how Windows reaches it over SMB
+export const SHARED_VOLUME_TARGET = "/shared";
+export const GUEST_SHARE_ROOT = "\\\\host.lan\\Data";
+
+// Files from outside the shared folder get copied here (relative to the shared folder) before launch
+const STAGING_DIR_NAME = ".winboat-staging";
+const STAGING_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+export class HostPathError extends Error {
+    constructor(
+        message: string,
+        readonly hostPath: string,
+    ) {
+        super(message);
+    }
+}
+
+/**
+ * Returns the host folder bound to the guest's `/shared`, or `null` if folder sharing is disabled
+ */
+export function getSharedFolderPath(compose: ComposeConfig): string | null {
+    const sharedVolume = compose.services.windows.volumes.find(vol => vol.includes(`:${SHARED_VOLUME_TARGET}`));
+    if (!sharedVolume) return null;
+
+    const [hostPath] = sharedVolume.split(":");
+    return hostPath.replace("${HOME}", os.homedir());
+}
+
+/**
+ * Resolves symlinks where possible, so that e.g. `~/Documents` linking into the shared folder still matches
+ */
+function resolveRealPath(hostPath: string): string {
+    const absolutePath = path.resolve(hostPath);
+    return fs.existsSync(absolutePath) ? fs.realpathSync(absolutePath) : absolutePath;
+}
+
+/**
+ * Translates a host path inside the shared folder to the UNC path Windows sees it under
+ * @throws {HostPathError} If the path lies outside of the shared folder
+ */
+export function translateHostPath(hostPath: string, sharedFolder: string): string {
+    const relativePath = path.relative(resolveRealPath(sharedFolder), resolveRealPath(hostPath));
+
+    if (relativePath.startsWith("..") || path.isAbsolute(relativePath)) {
+        throw new HostPathError(`'${hostPath}' is outside of the shared folder '${sharedFolder}'`, hostPath);
+    }
+
+    return [GUEST_SHARE_ROOT, ...relativePath.split(path.sep).filter(Boolean)].join("\\");
+}
+
+/**
+ * Removes staged copies from earlier launches, Windows apps may still hold recent ones open
+ */
+function cleanStagingDir(stagingDir: string) {
+    if (!fs.existsSync(stagingDir)) return;
+
+    for (const entry of fs.readdirSync(stagingDir)) {
+        const entryPath = path.join(stagingDir, entry);
+
+        if (Date.now() - fs.statSync(entryPath).mtimeMs > STAGING_MAX_AGE_MS) {
+            fs.rmSync(entryPath, { recursive: true, force: true });
+            logger.info(`Removed stale staging entry ${entryPath}`);
+        }
+    }
+}
+
+/**
+ * Copies a host file into the staging area of the shared folder, returning the copy's host path
+ */
+export function stageHostFile(hostPath: string, sharedFolder: string): string {
+    const stagingDir = path.join(sharedFolder, STAGING_DIR_NAME);
+    cleanStagingDir(stagingDir);
+    fs.mkdirSync(stagingDir, { recursive: true });
+
+    // Every launch gets its own folder, so files with the same name don't overwrite each other
+    const targetDir = fs.mkdtempSync(path.join(stagingDir, `${Date.now()}-`));
+    const targetPath = path.join(targetDir, path.basename(hostPath));
+
+    fs.cpSync(hostPath, targetPath, { recursive: true });
+    logger.info(`Staged '${hostPath}' at '${targetPath}'`);
+
+    return targetPath;
+}
+
+/**
+ * Translates host files so that a Windows app can open them
+ * @param hostPaths The files to translate
+ * @param compose The compose config of the VM the app runs in
+ * @param stageOutsideFiles Whether to copy files outside of the shared folder into it instead of failing
+ * @throws {HostPathError} If a file doesn't exist or can't be reached from Windows
+ */
+export function resolveGuestPaths(hostPaths: string[], compose: ComposeConfig, stageOutsideFiles: boolean): string[] {
+    if (!hostPaths.length) return [];
+
+    const sharedFolder = getSharedFolderPath(compose);
+
+    return hostPaths.map(hostPath => {
+        if (!fs.existsSync(hostPath)) {
+            throw new HostPathError(`'${hostPath}' does not exist`, hostPath);
+        }
+
+        // Quotes would end the argument early on the Windows side
+        if (hostPath.includes('"')) {
+            throw new HostPathError(`'${hostPath}' contains a double quote, which Windows doesn't allow`, hostPath);
+        }
+
+        // FreeRDP splits its RemoteApp options at every comma, so the command line can't contain any
+        if (hostPath.includes(",")) {
+            throw new HostPathError(`'${hostPath}' contains a comma, which FreeRDP can't pass on to Windows`, hostPath);
+        }
+
+        if (!sharedFolder) {
+            throw new HostPathError(
+                `Can't open '${hostPath}' in Windows because folder sharing is disabled, enable it in the configuration`,
+                hostPath,
+            );
+        }
+
+        try {
+            return translateHostPath(hostPath, sharedFolder);
+        } catch (e) {
+            if (!(e instanceof HostPathError) || !stageOutsideFiles) throw e;
+
+            return translateHostPath(stageHostFile(hostPath, sharedFolder), sharedFolder);
+        }
+    });
+}
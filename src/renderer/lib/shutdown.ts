@@ -0,0 +1,200 @@
+import { createLogger } from "../utils/log";
+import { WINBOAT_DIR } from "./constants";
+import { type QMPManager } from "./qmp";
+import { RuntimeStatus } from "./runtimes/common";
+import { type RuntimeManager } from "./runtimes/runtime";
+import { ref, type Ref } from "vue";
+
+const path: typeof import("path") = require("node:path");
+
+const logger = createLogger(path.join(WINBOAT_DIR, "shutdown.log"));
+
+const STATUS_POLL_MS = 1000;
+// QMP commands never get an answer once QEMU is gone
+const QMP_COMMAND_TIMEOUT_MS = 2000;
+
+/**
+ * Resolves with `fallback` if `promise` doesn't settle within `timeoutMs`
+ */
+async function withTimeout<T>(promise: Promise<T>, timeoutMs: number, fallback: T): Promise<T> {
+    let timeout: NodeJS.Timeout | undefined;
+
+    try {
+        return await Promise.race([
+            promise,
+            new Promise<T>(resolve => (timeout = setTimeout(() => resolve(fallback), timeoutMs))),
+        ]);
+    } finally {
+        clearTimeout(timeout);
+    }
+}
+
+/**
+ * The escalation steps of a shutdown, each one only runs if the previous one timed out
+ */
+export enum ShutdownPhase {
+    POWERDOWN = "Shutting down Windows",
+    RUNTIME_STOP = "Stopping the container",
+    FORCE_KILL = "Force stopping the container",
+}
+
+export type ShutdownTimeouts = {
+    // How long Windows gets to shut down after the ACPI power button was pressed
+    guestSeconds: number;
+    // How long the container runtime gets to stop the container before it's killed
+    runtimeSeconds: number;
+};
+
+/**
+ * Shuts a VM down the way a power button would, and only pulls the plug if Windows doesn't react
+ */
+export class ShutdownOrchestrator {
+    readonly phase: Ref<ShutdownPhase | null> = ref(null);
+    // When the current phase escalates to the next one, `null` if it doesn't
+    readonly deadline: Ref<number | null> = ref(null);
+    readonly #runtimeMgr: RuntimeManager;
+    readonly #getQMP: () => Promise<QMPManager | null>;
+    readonly #getTimeouts: () => ShutdownTimeouts;
+    #shutdownPromise: Promise<ShutdownPhase> | null = null;
+
+    /**
+     * @param runtimeMgr The runtime managing the VM's container
+     * @param getQMP Returns a connection to the VM's QMP socket, or `null` if it isn't reachable
+     * @param getTimeouts Returns the configured timeouts
+     */
+    constructor(
+        runtimeMgr: RuntimeManager,
+        getQMP: () => Promise<QMPManager | null>,
+        getTimeouts: () => ShutdownTimeouts,
+    ) {
+        this.#runtimeMgr = runtimeMgr;
+        this.#getQMP = getQMP;
+        this.#getTimeouts = getTimeouts;
+    }
+
+    /**
+     * Shuts the VM down, concurrent callers share the same shutdown
+     * @returns The phase the VM went down in
+     */
+    async shutdown(): Promise<ShutdownPhase> {
+        this.#shutdownPromise ??= this.#shutdown().finally(() => {
+            this.#shutdownPromise = null;
+            this.phase.value = null;
+            this.deadline.value = null;
+        });
+
+        return await this.#shutdownPromise;
+    }
+
+    async #shutdown(): Promise<ShutdownPhase> {
+        const { guestSeconds, runtimeSeconds } = this.#getTimeouts();
+        const startedAt = Date.now();
+
+        // A paused guest can't react to the power button
+        if ((await this.#runtimeMgr.getStatus()) === RuntimeStatus.PAUSED) {
+            await this.#runtimeMgr.container("unpause");
+        }
+
+        const guestIsDown = await this.#powerdown(guestSeconds);
+        let completedPhase = guestIsDown ? ShutdownPhase.POWERDOWN : ShutdownPhase.RUNTIME_STOP;
+
+        // QEMU might outlive the guest, but once Windows is down stopping the container can't hurt anymore
+        if ((await this.#isUp()) && !(await this.#runtimeStop(runtimeSeconds))) {
+            logger.warn(`Container didn't stop within ${runtimeSeconds}s, killing it`);
+            this.#enterPhase(ShutdownPhase.FORCE_KILL, null);
+            await this.#runtimeMgr.container("kill");
+            completedPhase = ShutdownPhase.FORCE_KILL;
+        }
+
+        logger.info(`Shutdown completed in phase '${completedPhase}' after ${(Date.now() - startedAt) / 1000}s`);
+        return completedPhase;
+    }
+
+    async #isUp(): Promise<boolean> {
+        const status = await this.#runtimeMgr.getStatus();
+        return status === RuntimeStatus.RUNNING || status === RuntimeStatus.PAUSED;
+    }
+
+    #enterPhase(phase: ShutdownPhase, timeoutSeconds: number | null) {
+        this.phase.value = phase;
+        this.deadline.value = timeoutSeconds === null ? null : Date.now() + timeoutSeconds * 1000;
+        logger.info(`[${phase}] ${timeoutSeconds === null ? "no timeout" : `timeout ${timeoutSeconds}s`}`);
+    }
+
+    /**
+     * Presses the ACPI power button through QMP and waits for Windows to shut down
+     * @returns Whether the guest is down
+     */
+    async #powerdown(timeoutSeconds: number): Promise<boolean> {
+        const qmp = await this.#getQMP();
+        if (!qmp) {
+            logger.warn("QMP is not reachable, skipping the ACPI powerdown");
+            return false;
+        }
+
+        this.#enterPhase(ShutdownPhase.POWERDOWN, timeoutSeconds);
+
+        let guestIsDown = false;
+        const stopListening = qmp.onEvent("SHUTDOWN", event => {
+            logger.info(`QEMU reported SHUTDOWN: ${JSON.stringify(event.data ?? {})}`);
+            guestIsDown = true;
+        });
+
+        try {
+            const response = await withTimeout(qmp.executeCommand("system_powerdown"), QMP_COMMAND_TIMEOUT_MS, null);
+            if (!response || "error" in response) {
+                logger.warn(`system_powerdown failed: ${response ? JSON.stringify(response.error) : "timed out"}`);
+                return false;
+            }
+
+            while (Date.now() < this.deadline.value!) {
+                if (!(await this.#isUp())) return true;
+
+                // QEMU started with -no-shutdown stays around with the guest off
+                guestIsDown ||= await this.#queryGuestShutdown(qmp);
+                if (guestIsDown) return true;
+
+                await new Promise(resolve => setTimeout(resolve, STATUS_POLL_MS));
+            }
+
+            logger.warn(`Windows didn't shut down within ${timeoutSeconds}s`);
+            return false;
+        } catch (e) {
+            logger.error("ACPI powerdown failed");
+            logger.error(e);
+            return false;
+        } finally {
+            stopListening();
+        }
+    }
+
+    async #queryGuestShutdown(qmp: QMPManager): Promise<boolean> {
+        try {
+            const response = await withTimeout(qmp.executeCommand("query-status"), QMP_COMMAND_TIMEOUT_MS, null);
+            return !!response && "return" in response && response.return.status === "shutdown";
+        } catch {
+            // The socket goes away together with QEMU, which the container status tells us about
+            return false;
+        }
+    }
+
+    /**
+     * Has the container runtime stop the container
+     * @returns Whether it stopped in time
+     */
+    async #runtimeStop(timeoutSeconds: number): Promise<boolean> {
+        this.#enterPhase(ShutdownPhase.RUNTIME_STOP, timeoutSeconds);
+
+        try {
+            return await withTimeout(
+                this.#runtimeMgr.container("stop").then(() => true),
+                timeoutSeconds * 1000,
+                false,
+            );
+        } catch (e) {
+            logger.error("Stopping the container failed");
+            logger.error(e);
+            return false;
+        }
+    }
+}
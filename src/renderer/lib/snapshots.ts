@@ -0,0 +1,518 @@
+import { type WinboatVM } from "../../types";
+import { createLogger } from "../utils/log";
+import { WINBOAT_DIR } from "./constants";
+import { type QMPJobInfo, type QMPManager, type QMPSnapshotInfo } from "./qmp";
+import { ref, type Ref } from "vue";
+
+const fs: typeof import("fs") = require("node:fs");
+const path: typeof import("path") = require("node:path");
+
+const logger = createLogger(path.join(WINBOAT_DIR, "snapshots.log"));
+
+const JOB_POLL_MS = 500;
+// Saving the VM state writes out the guest's whole RAM, so this can take a while on slow disks
+const JOB_TIMEOUT_MS = 10 * 60 * 1000;
+const JOB_CANCEL_TIMEOUT_MS = 10 * 1000;
+
+// Snapshots taken before risky operations are tagged with this prefix, only the newest few of them are kept
+export const AUTO_SNAPSHOT_PREFIX = "winboat-auto-";
+const AUTO_SNAPSHOT_LIMIT = 3;
+
+// Tags name the folders of external snapshots too, so '.' and '..' aren't allowed
+const SNAPSHOT_TAG_REGEX = /^(?!\.+$)[A-Za-z0-9 _.-]{1,64}$/;
+
+// External snapshots are kept in this folder next to the first disk, one subfolder per snapshot
+const EXTERNAL_SNAPSHOTS_DIR = "winboat-snapshots";
+const EXTERNAL_MANIFEST_FILE = "snapshot.json";
+
+export type Snapshot = {
+    tag: string;
+    // When the snapshot was taken in ms since epoch
+    date: number;
+    // Size of the saved RAM and device state in bytes, always 0 for external snapshots
+    vmStateSize: number;
+    automatic: boolean;
+    // External snapshots are copies of the disks, internal ones live inside the qcow2 images along with the VM state
+    external: boolean;
+};
+
+export class SnapshotError extends Error {}
+
+/**
+ * What external snapshots need from the VM's runtime, since they're restored on the host
+ */
+export type SnapshotHost = {
+    // Maps a path as QEMU sees it to the host, `null` if it isn't reachable from the host
+    resolvePath: (qemuPath: string) => string | null;
+    stopVM: () => Promise<void>;
+    startVM: () => Promise<void>;
+};
+
+type SnapshotDisk = {
+    node: string;
+    format: string;
+    // The image as QEMU sees it
+    file: string;
+    snapshots?: QMPSnapshotInfo[];
+};
+
+// Written next to the copies once all of them are complete, so half-written snapshots aren't listed
+type ExternalSnapshotManifest = {
+    date: number;
+    // Paths as QEMU sees them
+    disks: { file: string; copy: string }[];
+};
+
+type ExternalSnapshot = {
+    tag: string;
+    // The snapshot's folder on the host
+    dir: string;
+    manifest: ExternalSnapshotManifest;
+};
+
+/**
+ * Creates, lists, reverts and deletes snapshots of a VM's disks through QMP.
+ * If every disk is a qcow2 image, the snapshots are internal: they live inside the images and include the running
+ * state of the VM. Otherwise (e.g. with raw disks) they're external copies of the disks made by QEMU, which are
+ * written back on the host with the VM stopped. Overlays aren't an option for those, since the runtime would boot
+ * from the original disk again and drop everything written since the snapshot
+ */
+export class SnapshotManager {
+    readonly snapshots: Ref<Snapshot[]> = ref([]);
+    // The operation currently running, `null` if there is none
+    readonly busy: Ref<string | null> = ref(null);
+    readonly #vm: WinboatVM;
+    readonly #getQMP: () => Promise<QMPManager | null>;
+    readonly #host: SnapshotHost;
+    #nextJobId = 0;
+
+    /**
+     * @param vm The VM whose disks get snapshotted
+     * @param getQMP Returns a connection to the VM's QMP socket, or `null` if it isn't reachable
+     * @param host Provides access to the disks on the host, for external snapshots
+     */
+    constructor(vm: WinboatVM, getQMP: () => Promise<QMPManager | null>, host: SnapshotHost) {
+        this.#vm = vm;
+        this.#getQMP = getQMP;
+        this.#host = host;
+    }
+
+    /**
+     * Reads the snapshots from the VM's disks, updating {@link snapshots}
+     */
+    async list(): Promise<Snapshot[]> {
+        const qmp = await this.#requireQMP();
+        const disks = await this.#getDisks(qmp);
+
+        // Snapshots taken through QMP span every disk, so the first one is representative
+        const internalSnapshots = (this.#supportsInternal(disks) ? (disks[0].snapshots ?? []) : []).map(snapshot => ({
+            tag: snapshot.name,
+            date: snapshot["date-sec"] * 1000 + Math.floor(snapshot["date-nsec"] / 1e6),
+            vmStateSize: snapshot["vm-state-size"],
+            automatic: snapshot.name.startsWith(AUTO_SNAPSHOT_PREFIX),
+            external: false,
+        }));
+        const externalSnapshots = this.#listExternal(disks).map(snapshot => ({
+            tag: snapshot.tag,
+            date: snapshot.manifest.date,
+            vmStateSize: 0,
+            automatic: snapshot.tag.startsWith(AUTO_SNAPSHOT_PREFIX),
+            external: true,
+        }));
+
+        this.snapshots.value = [...internalSnapshots, ...externalSnapshots].sort((a, b) => b.date - a.date);
+
+        return this.snapshots.value;
+    }
+
+    /**
+     * Saves the disks, and the running state of the VM for internal snapshots, under the given tag
+     * @throws {SnapshotError} If the tag is invalid or taken, or QEMU fails to save the snapshot
+     */
+    async create(tag: string) {
+        if (!SNAPSHOT_TAG_REGEX.test(tag)) {
+            throw new SnapshotError(
+                "Snapshot names may only contain letters, digits, spaces, dots, dashes and underscores (64 at most)",
+            );
+        }
+
+        await this.#runExclusive(`Creating snapshot '${tag}'`, async qmp => {
+            const disks = await this.#getDisks(qmp);
+            if ((await this.list()).some(snapshot => snapshot.tag === tag)) {
+                throw new SnapshotError(`A snapshot named '${tag}' already exists`);
+            }
+
+            if (this.#supportsInternal(disks)) {
+                await this.#runJob(
+                    qmp,
+                    "snapshot-save",
+                    tag,
+                    disks.map(disk => disk.node),
+                );
+            } else {
+                await this.#createExternal(qmp, tag, disks);
+            }
+        });
+    }
+
+    /**
+     * Restores the disks and running state of the VM to the given snapshot, everything since is lost.
+     * Reverting to an external snapshot restarts the VM
+     */
+    async revert(tag: string) {
+        await this.#runExclusive(`Reverting to snapshot '${tag}'`, async qmp => {
+            const disks = await this.#getDisks(qmp);
+            const external = this.#listExternal(disks).find(snapshot => snapshot.tag === tag);
+
+            if (external) {
+                await this.#revertExternal(external);
+            } else {
+                await this.#runJob(
+                    qmp,
+                    "snapshot-load",
+                    tag,
+                    disks.map(disk => disk.node),
+                );
+            }
+        });
+    }
+
+    async delete(tag: string) {
+        await this.#runExclusive(`Deleting snapshot '${tag}'`, async qmp => {
+            const disks = await this.#getDisks(qmp);
+            const external = this.#listExternal(disks).find(snapshot => snapshot.tag === tag);
+
+            if (external) {
+                fs.rmSync(external.dir, { recursive: true, force: true });
+            } else {
+                await this.#runJob(
+                    qmp,
+                    "snapshot-delete",
+                    tag,
+                    disks.map(disk => disk.node),
+                );
+            }
+        });
+    }
+
+    /**
+     * Takes a snapshot before a risky operation and prunes old automatic ones.
+     * Never throws, since the operation should go ahead regardless
+     * @returns The tag of the snapshot, or `null` if none could be taken
+     */
+    async createAutomatic(reason: string): Promise<string | null> {
+        const tag = `${AUTO_SNAPSHOT_PREFIX}${new Date().toISOString().replace(/[:T]/g, "-").slice(0, 19)}`;
+
+        try {
+            logger.info(`[${this.#vm.id}] Taking automatic snapshot before ${reason}`);
+            await this.create(tag);
+
+            const stale = (await this.list()).filter(snapshot => snapshot.automatic).slice(AUTO_SNAPSHOT_LIMIT);
+            for (const snapshot of stale) {
+                await this.delete(snapshot.tag);
+            }
+
+            return tag;
+        } catch (e) {
+            logger.warn(`[${this.#vm.id}] Couldn't take an automatic snapshot before ${reason}`);
+            logger.warn(e);
+            return null;
+        }
+    }
+
+    async #requireQMP(): Promise<QMPManager> {
+        const qmp = await this.#getQMP();
+        if (!qmp) {
+            throw new SnapshotError("QMP is not reachable, is the VM running?");
+        }
+
+        return qmp;
+    }
+
+    async #runExclusive(operation: string, callback: (qmp: QMPManager) => Promise<void>) {
+        if (this.busy.value) {
+            throw new SnapshotError(`Please wait, ${this.busy.value.toLowerCase()} is still in progress`);
+        }
+
+        this.busy.value = operation;
+        logger.info(`[${this.#vm.id}] ${operation}`);
+
+        try {
+            await callback(await this.#requireQMP());
+            logger.info(`[${this.#vm.id}] ${operation} completed`);
+        } catch (e) {
+            logger.error(`[${this.#vm.id}] ${operation} failed`);
+            logger.error(e);
+            throw e;
+        } finally {
+            this.busy.value = null;
+            await this.list().catch(() => {});
+        }
+    }
+
+    /**
+     * Returns the writable disks of the VM. The UEFI variables live in pflash drives, which aren't part of snapshots
+     */
+    async #getDisks(qmp: QMPManager): Promise<SnapshotDisk[]> {
+        const response = await qmp.executeCommand("query-block");
+        if ("error" in response) {
+            throw new SnapshotError(`Failed to query the VM's disks: ${response.error.desc}`);
+        }
+
+        const disks = response.return
+            .filter(block => !block.removable && !block.device.startsWith("pflash"))
+            .filter(block => block.inserted && !block.inserted.ro)
+            .map(block => ({
+                node: block.inserted!["node-name"],
+                format: block.inserted!.drv,
+                file: block.inserted!.file,
+                snapshots: block.inserted!.image?.snapshots,
+            }));
+
+        if (!disks.length) {
+            throw new SnapshotError("The VM has no writable disks to snapshot");
+        }
+
+        const unnamed = disks.find(disk => !disk.node);
+        if (unnamed) {
+            throw new SnapshotError(`The disk '${unnamed.file}' has no node name QEMU could address it by`);
+        }
+
+        return disks as SnapshotDisk[];
+    }
+
+    /**
+     * Internal snapshots can only be stored in qcow2 images, and have to span every disk
+     */
+    #supportsInternal(disks: SnapshotDisk[]): boolean {
+        return disks.every(disk => disk.format === "qcow2");
+    }
+
+    /**
+     * Returns where the external snapshots of the VM are kept, both as QEMU sees it and on the host
+     */
+    #getExternalDir(disks: SnapshotDisk[]): { qemu: string; host: string } | null {
+        const qemuDir = path.posix.join(path.posix.dirname(disks[0].file), EXTERNAL_SNAPSHOTS_DIR);
+        const hostDir = this.#host.resolvePath(qemuDir);
+
+        return hostDir ? { qemu: qemuDir, host: hostDir } : null;
+    }
+
+    #listExternal(disks: SnapshotDisk[]): ExternalSnapshot[] {
+        const externalDir = this.#getExternalDir(disks);
+        if (!externalDir || !fs.existsSync(externalDir.host)) return [];
+
+        return fs
+            .readdirSync(externalDir.host, { withFileTypes: true })
+            .filter(entry => entry.isDirectory())
+            .flatMap(entry => {
+                const dir = path.join(externalDir.host, entry.name);
+                const manifestPath = path.join(dir, EXTERNAL_MANIFEST_FILE);
+                if (!fs.existsSync(manifestPath)) return [];
+
+                try {
+                    const manifest = JSON.parse(fs.readFileSync(manifestPath, "utf-8")) as ExternalSnapshotManifest;
+                    return [{ tag: entry.name, dir, manifest }];
+                } catch (e) {
+                    logger.warn(
+                        `[${this.#vm.id}] Skipping external snapshot with unreadable manifest: ${manifestPath}`,
+                    );
+                    logger.warn(e);
+                    return [];
+                }
+            });
+    }
+
+    /**
+     * Has QEMU copy every disk into the snapshot's folder. The copies are started in a single transaction,
+     * so that they're all taken at the same point in time
+     */
+    async #createExternal(qmp: QMPManager, tag: string, disks: SnapshotDisk[]) {
+        const externalDir = this.#getExternalDir(disks);
+        if (!externalDir) {
+            throw new SnapshotError(
+                `Snapshots of ${disks.find(disk => disk.format !== "qcow2")!.format} disks are copies stored next to them, which requires the VM's storage to be a host folder`,
+            );
+        }
+
+        const snapshotDir = path.join(externalDir.host, tag);
+        const manifest: ExternalSnapshotManifest = {
+            date: Date.now(),
+            disks: disks.map((disk, i) => ({
+                file: disk.file,
+                copy: path.posix.join(externalDir.qemu, tag, `${i}-${path.posix.basename(disk.file)}`),
+            })),
+        };
+
+        fs.mkdirSync(snapshotDir, { recursive: true });
+
+        try {
+            const jobIds = disks.map(() => `winboat-drive-backup-${this.#nextJobId++}`);
+            const response = await qmp.executeCommand("transaction", {
+                actions: disks.map((disk, i) => ({
+                    type: "drive-backup",
+                    data: {
+                        "job-id": jobIds[i],
+                        device: disk.node,
+                        target: manifest.disks[i].copy,
+                        format: disk.format,
+                        sync: "full",
+                        mode: "absolute-paths",
+                        // Concluded jobs are dismissed by #awaitJob, so that their errors can be read
+                        "auto-dismiss": false,
+                    },
+                })),
+            });
+
+            if ("error" in response) {
+                throw new SnapshotError(`QEMU refused to start copying the disks: ${response.error.desc}`);
+            }
+
+            // Every job has to be waited for (and dismissed), even if an earlier one failed
+            let jobError: unknown = null;
+            for (const jobId of jobIds) {
+                await this.#awaitJob(qmp, "drive-backup", jobId).catch(e => (jobError ??= e));
+            }
+            if (jobError) throw jobError;
+
+            fs.writeFileSync(path.join(snapshotDir, EXTERNAL_MANIFEST_FILE), JSON.stringify(manifest, null, 4));
+        } catch (e) {
+            fs.rmSync(snapshotDir, { recursive: true, force: true });
+            throw e;
+        }
+    }
+
+    /**
+     * Stops the VM, writes the copies back over its disks on the host and starts it again
+     */
+    async #revertExternal(snapshot: ExternalSnapshot) {
+        const disks = snapshot.manifest.disks.map(disk => ({
+            file: this.#host.resolvePath(disk.file),
+            copy: this.#host.resolvePath(disk.copy),
+        }));
+
+        if (disks.some(disk => !disk.file || !disk.copy || !fs.existsSync(disk.copy))) {
+            throw new SnapshotError(`The disks of snapshot '${snapshot.tag}' can't be found on the host`);
+        }
+
+        await this.#host.stopVM();
+
+        try {
+            for (const disk of disks) {
+                // Copying next to the disk first leaves it intact if copying fails. Renaming also works on disks
+                // owned by the container's root user, as long as the folder is the user's
+                const pendingPath = `${disk.file!}.winboat-revert`;
+
+                try {
+                    await fs.promises.copyFile(disk.copy!, pendingPath, fs.constants.COPYFILE_FICLONE);
+                    fs.renameSync(pendingPath, disk.file!);
+                } catch (e) {
+                    fs.rmSync(pendingPath, { force: true });
+                    throw e;
+                }
+            }
+        } finally {
+            await this.#host.startVM();
+        }
+    }
+
+    /**
+     * Starts a snapshot job and waits for it to conclude, dismissing it afterwards
+     * @param nodes The disks to include, the VM state is stored in the first one
+     */
+    async #runJob(
+        qmp: QMPManager,
+        command: "snapshot-save" | "snapshot-load" | "snapshot-delete",
+        tag: string,
+        nodes: string[],
+    ) {
+        const jobId = `winboat-${command}-${this.#nextJobId++}`;
+        const response =
+            command === "snapshot-delete"
+                ? await qmp.executeCommand(command, { "job-id": jobId, tag, devices: nodes })
+                : await qmp.executeCommand(command, { "job-id": jobId, tag, vmstate: nodes[0], devices: nodes });
+
+        if ("error" in response) {
+            throw new SnapshotError(`QEMU refused to start ${command}: ${response.error.desc}`);
+        }
+
+        await this.#awaitJob(qmp, command, jobId);
+    }
+
+    /**
+     * Waits for a job to conclude and dismisses it
+     * @throws {SnapshotError} If the job failed, or didn't conclude
+     */
+    async #awaitJob(qmp: QMPManager, command: string, jobId: string) {
+        let job: QMPJobInfo | undefined;
+        try {
+            job = await this.#waitForJob(qmp, command, jobId);
+        } finally {
+            // Jobs stick around until they're dismissed, so failed and timed out ones are cleaned up too
+            await this.#dismissJob(qmp, jobId, job?.status === "concluded");
+        }
+
+        if (job.error) {
+            throw new SnapshotError(job.error);
+        }
+    }
+
+    /**
+     * Polls a job until it concludes
+     * @throws {SnapshotError} If the job can't be queried, vanishes or times out
+     */
+    async #waitForJob(qmp: QMPManager, command: string, jobId: string): Promise<QMPJobInfo> {
+        const deadline = Date.now() + JOB_TIMEOUT_MS;
+        let job: QMPJobInfo | undefined;
+
+        while (Date.now() < deadline) {
+            const jobs = await qmp.executeCommand("query-jobs");
+            if ("error" in jobs) {
+                throw new SnapshotError(`Failed to query the status of ${command}: ${jobs.error.desc}`);
+            }
+
+            job = jobs.return.find(job => job.id === jobId);
+            if (!job || job.status === "concluded") break;
+
+            await new Promise(resolve => setTimeout(resolve, JOB_POLL_MS));
+        }
+
+        if (job?.status !== "concluded") {
+            throw new SnapshotError(
+                job ? `${command} didn't finish within ${JOB_TIMEOUT_MS / 60000} minutes` : `${command} job vanished`,
+            );
+        }
+
+        return job;
+    }
+
+    /**
+     * Dismisses a job, cancelling it first if it hasn't concluded yet. Never throws, since it only cleans up
+     */
+    async #dismissJob(qmp: QMPManager, jobId: string, concluded: boolean) {
+        try {
+            if (!concluded) {
+                await qmp.executeCommand("job-cancel", { id: jobId });
+
+                // Cancelled jobs conclude asynchronously, and can't be dismissed before that
+                const deadline = Date.now() + JOB_CANCEL_TIMEOUT_MS;
+                while (Date.now() < deadline) {
+                    const jobs = await qmp.executeCommand("query-jobs");
+                    const job = "return" in jobs ? jobs.return.find(job => job.id === jobId) : undefined;
+                    if (!job) return;
+                    if (job.status === "concluded") break;
+
+                    await new Promise(resolve => setTimeout(resolve, JOB_POLL_MS));
+                }
+            }
+
+            const response = await qmp.executeCommand("job-dismiss", { id: jobId });
+            if ("error" in response) {
+                logger.warn(`[${this.#vm.id}] Couldn't dismiss job '${jobId}': ${response.error.desc}`);
+            }
+        } catch (e) {
+            logger.warn(`[${this.#vm.id}] Couldn't dismiss job '${jobId}'`);
+            logger.warn(e);
+        }
+    }
+}
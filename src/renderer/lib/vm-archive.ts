@@ -0,0 +1,363 @@
+import { type ComposeConfig, type WinboatVM } from "../../types";
+import { createLogger } from "../utils/log";
+import { ComposePortEntry, Range } from "../utils/port";
+import { WinboatConfig } from "./config";
+import { WINBOAT_DIR } from "./constants";
+import { execFileAsync } from "./exec-helper";
+import { createRuntime, getPreferredGuestArchitecture, RuntimeStatus, type RuntimeKind } from "./runtimes/common";
+import { getVM, registerVM, unregisterVM, updateVM } from "./vms";
+import { deleteVMPassword, getVMPassword, PASSWORD_PLACEHOLDER, setVMPassword } from "./secrets";
+import { Winboat } from "./winboat";
+
+const fs: typeof import("fs") = require("node:fs");
+const os: typeof import("os") = require("node:os");
+const path: typeof import("path") = require("node:path");
+const crypto: typeof import("crypto") = require("node:crypto");
+const YAML: typeof import("yaml") = require("yaml");
+
+const logger = createLogger(path.join(WINBOAT_DIR, "vm-archive.log"));
+
+// Bumped whenever the layout of the archive changes in a way older versions can't import
+const ARCHIVE_FORMAT_VERSION = 1;
+
+const MANIFEST_FILE = "manifest.json";
+const CONFIG_FILE = "winboat.config.json";
+// What gets picked from the VM's data directory, the compose file is added on top
+const DATA_ENTRIES = ["oem", "appUsage.json"];
+const DATA_DIR = "data";
+const STORAGE_DIR = "storage";
+// Where the archive is unpacked to within the install folder, so the disk can be moved in place without copying it
+const IMPORT_STAGING_DIR = ".winboat-import";
+
+export type VMArchiveManifest = {
+    formatVersion: number;
+    winboatVersion: string;
+    createdAt: string;
+    runtime: RuntimeKind;
+    guestArch: string;
+    vm: {
+        id: string;
+        name: string;
+        portOffset: number;
+    };
+    // Path of the compose file within the archive
+    composeFile: string;
+    // SHA-256 of every file in the archive except the manifest, keyed by their path within the archive
+    files: { [archivePath: string]: string };
+};
+
+export class VMArchiveError extends Error {}
+
+/**
+ * Reports what an export or import is currently doing, hashing and packing the disk can take a long time
+ */
+export type VMArchiveProgress = (stage: string) => void;
+
+async function hashFile(filePath: string): Promise<string> {
+    const hash = crypto.createHash("sha256");
+
+    for await (const chunk of fs.createReadStream(filePath)) {
+        hash.update(chunk);
+    }
+
+    return hash.digest("hex");
+}
+
+/**
+ * Lists the files below `dir` (or `dir` itself if it's a file), relative to `dir`
+ */
+function listFiles(dir: string): string[] {
+    if (!fs.statSync(dir).isDirectory()) return [""];
+
+    return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+        const entryPath = path.join(dir, entry.name);
+        return listFiles(entryPath).map(file => path.join(entry.name, file));
+    });
+}
+
+function resolveHome(hostPath: string): string {
+    return hostPath.replace("${HOME}", os.homedir());
+}
+
+/**
+ * Shifts every host port of a compose file from one VM's port range to another's
+ */
+function remapPorts(ports: ComposeConfig["services"]["windows"]["ports"], delta: number) {
+    return ports.map(port => {
+        if (typeof port !== "string" || !delta) return port;
+
+        const entry = new ComposePortEntry(port);
+        entry.host =
+            typeof entry.host === "number"
+                ? entry.host + delta
+                : new Range(entry.host.start + delta, entry.host.end + delta);
+
+        return entry.entry;
+    });
+}
+
+function setVolume(compose: ComposeConfig, guestPath: string, hostPath: string) {
+    const volumes = compose.services.windows.volumes.filter(volume => !volume.endsWith(`:${guestPath}`));
+    compose.services.windows.volumes = [...volumes, `${hostPath}:${guestPath}`];
+}
+
+/**
+ * Packs a VM into a single tar archive: its compose file, OEM assets, app usage, its entry in the config
+ * (which holds the custom apps and their icons) and its whole storage folder, along with a manifest of checksums.
+ * The VM has to be stopped so that the disk is consistent. The compose file includes the Windows password
+ * @throws {VMArchiveError} If the VM is running or its storage can't be located
+ */
+export async function exportVM(vmId: string, archivePath: string, onProgress: VMArchiveProgress = () => {}) {
+    const vm = getVM(vmId);
+    if (!vm) {
+        throw new VMArchiveError(`No VM with id '${vmId}' is registered`);
+    }
+
+    const wbConfig = WinboatConfig.getInstance();
+    const runtime = createRuntime(wbConfig.config.containerRuntime, vm);
+
+    const status = await runtime.getStatus();
+    if (status === RuntimeStatus.RUNNING || status === RuntimeStatus.PAUSED) {
+        throw new VMArchiveError("Please stop the VM before exporting it");
+    }
+
+    if (!fs.existsSync(runtime.composeFilePath)) {
+        throw new VMArchiveError(`The VM has no compose file at ${runtime.composeFilePath}, is it installed?`);
+    }
+
+    const compose = Winboat.readCompose(runtime.composeFilePath);
+    const storageFolder = resolveHome(Winboat.getStorageFolder(compose) ?? vm.storageFolder);
+    if (!storageFolder || !fs.existsSync(storageFolder)) {
+        throw new VMArchiveError("The VM's disk lives in a named volume or couldn't be found, so it can't be exported");
+    }
+
+    // The archive is laid out in a staging folder of symlinks, which tar dereferences while packing
+    const stagingDir = fs.mkdtempSync(path.join(os.tmpdir(), "winboat-export-"));
+    logger.info(`Exporting VM '${vm.id}' to ${archivePath}, staging in ${stagingDir}`);
+
+    try {
+        // Other VMs don't belong into the archive
+        fs.writeFileSync(
+            path.join(stagingDir, CONFIG_FILE),
+            JSON.stringify({ ...wbConfig.config, vms: [vm] }, null, 4),
+        );
+
+        // The password lives in the secret store, but the archive has to work on other hosts as well
+        const composeFile = path.join(DATA_DIR, path.basename(runtime.composeFilePath));
+        const password = await getVMPassword(vm);
+        if (password !== null) {
+            compose.services.windows.environment.PASSWORD = password;
+        }
+
+        fs.mkdirSync(path.join(stagingDir, DATA_DIR));
+        fs.writeFileSync(path.join(stagingDir, composeFile), YAML.stringify(compose, { nullStr: "" }), { mode: 0o600 });
+
+        for (const entry of DATA_ENTRIES) {
+            const source = path.join(vm.dataDir, entry);
+            if (fs.existsSync(source)) {
+                fs.symlinkSync(source, path.join(stagingDir, DATA_DIR, entry));
+            }
+        }
+
+        fs.symlinkSync(storageFolder, path.join(stagingDir, STORAGE_DIR));
+
+        const manifest: VMArchiveManifest = {
+            formatVersion: ARCHIVE_FORMAT_VERSION,
+            winboatVersion: import.meta.env.VITE_APP_VERSION,
+            createdAt: new Date().toISOString(),
+            runtime: wbConfig.config.containerRuntime,
+            guestArch: wbConfig.config.guestArch,
+            vm: { id: vm.id, name: vm.name, portOffset: vm.portOffset },
+            composeFile,
+            files: {},
+        };
+
+        for (const file of listFiles(stagingDir)) {
+            onProgress(`Computing checksum of ${file}`);
+            manifest.files[file] = await hashFile(path.join(stagingDir, file));
+        }
+
+        fs.writeFileSync(path.join(stagingDir, MANIFEST_FILE), JSON.stringify(manifest, null, 4));
+
+        // The manifest goes first, so that imports can read it without unpacking the disk.
+        // Raw disks are sparse, '-S' keeps their holes from being written out as zeroes
+        onProgress("Packing the archive");
+        // The compose file inside holds the password in plaintext, so only the user may read the archive.
+        // tar keeps the mode of the file it writes into
+        fs.writeFileSync(archivePath, "", { mode: 0o600 });
+        fs.chmodSync(archivePath, 0o600);
+        await execFileAsync("tar", [
+            "-chSf",
+            archivePath,
+            "-C",
+            stagingDir,
+            MANIFEST_FILE,
+            CONFIG_FILE,
+            DATA_DIR,
+            STORAGE_DIR,
+        ]);
+
+        logger.info(`Exported VM '${vm.id}' with ${Object.keys(manifest.files).length} files`);
+    } catch (e) {
+        logger.error(`Failed to export VM '${vm.id}'`);
+        logger.error(e);
+        fs.rmSync(archivePath, { force: true });
+        throw e;
+    } finally {
+        fs.rmSync(stagingDir, { recursive: true, force: true });
+    }
+}
+
+/**
+ * Reads the manifest of an archive created by {@link exportVM}, without unpacking the rest of it
+ */
+export async function readVMArchiveManifest(archivePath: string): Promise<VMArchiveManifest> {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "winboat-manifest-"));
+
+    try {
+        await execFileAsync("tar", ["-xf", archivePath, "-C", tempDir, MANIFEST_FILE]);
+        const manifest = JSON.parse(fs.readFileSync(path.join(tempDir, MANIFEST_FILE), "utf-8")) as VMArchiveManifest;
+
+        if (manifest.formatVersion > ARCHIVE_FORMAT_VERSION) {
+            throw new VMArchiveError("The archive was created by a newer version of WinBoat, please update first");
+        }
+
+        return manifest;
+    } catch (e) {
+        if (e instanceof VMArchiveError) throw e;
+        throw new VMArchiveError(`${archivePath} is not a WinBoat VM archive`, { cause: e });
+    } finally {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+}
+
+/**
+ * Unpacks an archive created by {@link exportVM} and registers it as a new VM under the selected runtime.
+ * The disk ends up in `installFolder`, and the VM gets a fresh port range and container name
+ * @throws {VMArchiveError} If the archive is invalid, corrupted or can't run under the selected runtime
+ */
+export async function importVM(
+    archivePath: string,
+    installFolder: string,
+    onProgress: VMArchiveProgress = () => {},
+): Promise<WinboatVM> {
+    const wbConfig = WinboatConfig.getInstance();
+    const runtimeKind = wbConfig.config.containerRuntime;
+
+    onProgress("Reading the manifest");
+    const manifest = await readVMArchiveManifest(archivePath);
+
+    const guestArch = getPreferredGuestArchitecture(runtimeKind);
+    if (manifest.guestArch !== guestArch) {
+        throw new VMArchiveError(
+            `The archive holds a ${manifest.guestArch} guest, but ${runtimeKind} runs ${guestArch} guests`,
+        );
+    }
+
+    if (fs.existsSync(installFolder) && fs.readdirSync(installFolder).length) {
+        throw new VMArchiveError(`${installFolder} is not empty, please pick an empty folder`);
+    }
+
+    const vm = registerVM(manifest.vm.name);
+    const stagingDir = path.join(installFolder, IMPORT_STAGING_DIR);
+    // What's been moved into the install folder so far, which a failed import removes again
+    const movedEntries: string[] = [];
+    logger.info(`Importing ${archivePath} (VM '${manifest.vm.id}') as VM '${vm.id}' into ${installFolder}`);
+
+    try {
+        fs.mkdirSync(stagingDir, { recursive: true });
+        onProgress("Unpacking the archive");
+        await execFileAsync("tar", ["-xf", archivePath, "-C", stagingDir]);
+
+        for (const [file, checksum] of Object.entries(manifest.files)) {
+            onProgress(`Verifying ${file}`);
+            const filePath = path.join(stagingDir, file);
+
+            if (!fs.existsSync(filePath) || (await hashFile(filePath)) !== checksum) {
+                throw new VMArchiveError(`${file} is missing or corrupted, the archive can't be imported`);
+            }
+        }
+
+        onProgress("Moving files into place");
+
+        // Renaming within the same filesystem is instant, the disk doesn't get copied a second time
+        for (const entry of fs.readdirSync(path.join(stagingDir, STORAGE_DIR))) {
+            fs.renameSync(path.join(stagingDir, STORAGE_DIR, entry), path.join(installFolder, entry));
+            movedEntries.push(entry);
+        }
+
+        fs.mkdirSync(vm.dataDir, { recursive: true });
+        for (const entry of DATA_ENTRIES) {
+            const source = path.join(stagingDir, DATA_DIR, entry);
+            if (fs.existsSync(source)) {
+                fs.cpSync(source, path.join(vm.dataDir, entry), { recursive: true });
+            }
+        }
+
+        const importedConfig = JSON.parse(fs.readFileSync(path.join(stagingDir, CONFIG_FILE), "utf-8"));
+        const importedVM = importedConfig.vms?.[0] as WinboatVM | undefined;
+        const importedVMEntry = updateVM(vm.id, {
+            storageFolder: installFolder,
+            customApps: importedVM?.customApps ?? [],
+            mimeTypes: importedVM?.mimeTypes ?? {},
+            launchProfiles: importedVM?.launchProfiles ?? {},
+        });
+
+        const runtime = createRuntime(runtimeKind, importedVMEntry);
+        const importedCompose = Winboat.readCompose(path.join(stagingDir, manifest.composeFile));
+        let compose: ComposeConfig;
+
+        if (manifest.runtime === runtimeKind) {
+            // Keeps every customization, only what identifies the VM on this host changes
+            compose = importedCompose;
+            compose.name = runtime.defaultCompose.name;
+            compose.services.windows.container_name = importedVMEntry.containerName;
+            compose.services.windows.ports = remapPorts(
+                compose.services.windows.ports,
+                importedVMEntry.portOffset - manifest.vm.portOffset,
+            );
+        } else {
+            // The compose files of different runtimes aren't interchangeable, so only the guest's settings carry over
+            logger.info(`Converting compose from ${manifest.runtime} to ${runtimeKind}`);
+            compose = structuredClone(runtime.defaultCompose);
+            compose.services.windows.environment = {
+                ...compose.services.windows.environment,
+                ...importedCompose.services.windows.environment,
+            };
+
+            const sharedFolder = importedCompose.services.windows.volumes.find(volume => volume.endsWith(":/shared"));
+            if (sharedFolder) {
+                setVolume(compose, "/shared", sharedFolder.split(":")[0]);
+            }
+        }
+
+        setVolume(compose, "/storage", installFolder);
+
+        // The archive carries the password in plaintext, which moves into the secret store here
+        const password = importedCompose.services.windows.environment.PASSWORD;
+        if (password && password !== PASSWORD_PLACEHOLDER) {
+            await setVMPassword(importedVMEntry, password);
+        }
+        runtime.writeCompose(compose);
+
+        onProgress("Creating the container");
+        await runtime.compose("up", ["--no-start"]);
+
+        logger.info(`Imported VM '${vm.id}'`);
+        return importedVMEntry;
+    } catch (e) {
+        logger.error(`Failed to import ${archivePath}`);
+        logger.error(e);
+        await deleteVMPassword(vm).catch(() => {});
+        unregisterVM(vm.id);
+
+        // The install folder was empty, and the data directory (which also holds the compose file) is the new VM's
+        for (const entry of movedEntries) {
+            fs.rmSync(path.join(installFolder, entry), { recursive: true, force: true });
+        }
+        fs.rmSync(vm.dataDir, { recursive: true, force: true });
+        throw e;
+    } finally {
+        fs.rmSync(stagingDir, { recursive: true, force: true });
+    }
+}
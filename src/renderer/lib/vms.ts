@@ -0,0 +1,114 @@
+import { type WinboatVM } from "../../types";
+import { DEFAULT_VM_ID, WINBOAT_DIR } from "./constants";
+import { WinboatConfig, type WinboatConfigObj } from "./config";
+import { getDefaultContainerName, type RuntimeKind } from "./runtimes/common";
+
+const path: typeof import("node:path") = require("node:path");
+
+export const VMS_DIR = path.join(WINBOAT_DIR, "vms");
+
+// The default compose files span 50 host ports, so every VM gets its own block of that size
+const VM_PORT_OFFSET_STEP = 50;
+
+function slugify(name: string): string {
+    return name
+        .trim()
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "-")
+        .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Returns the container name a VM uses under the given runtime
+ */
+export function getVMContainerName(id: string, runtime: RuntimeKind): string {
+    const baseName = getDefaultContainerName(runtime);
+    return id === DEFAULT_VM_ID ? baseName : `${baseName}-${id}`;
+}
+
+export function getVMs(): WinboatVM[] {
+    return WinboatConfig.getInstance().config.vms;
+}
+
+export function getVM(id: string): WinboatVM | undefined {
+    return getVMs().find(vm => vm.id === id);
+}
+
+/**
+ * Finds the selected VM in a config object, useful when the config singleton shouldn't be instantiated yet
+ */
+export function findActiveVM(configObj: WinboatConfigObj): WinboatVM {
+    return configObj.vms.find(vm => vm.id === configObj.activeVMId) ?? configObj.vms[0];
+}
+
+export function getActiveVM(): WinboatVM {
+    return findActiveVM(WinboatConfig.getInstance().config);
+}
+
+export function setActiveVM(id: string): void {
+    if (!getVM(id)) {
+        throw new Error(`No VM with id '${id}' is registered`);
+    }
+
+    WinboatConfig.getInstance().config.activeVMId = id;
+}
+
+/**
+ * Adds a new VM to the registry. This only reserves its folder, container name and port range,
+ * the VM itself still has to be installed
+ */
+export function registerVM(name: string): WinboatVM {
+    const wbConfig = WinboatConfig.getInstance();
+    const vms = wbConfig.config.vms;
+    const baseId = slugify(name) || "vm";
+
+    let id = baseId;
+    for (let i = 2; vms.some(vm => vm.id === id); i++) {
+        id = `${baseId}-${i}`;
+    }
+
+    const vm: WinboatVM = {
+        id,
+        name: name.trim() || id,
+        dataDir: path.join(VMS_DIR, id),
+        containerName: getVMContainerName(id, wbConfig.config.containerRuntime),
+        portOffset: Math.max(...vms.map(vm => vm.portOffset)) + VM_PORT_OFFSET_STEP,
+        storageFolder: "",
+        customApps: [],
+        mimeTypes: {},
+        launchProfiles: {},
+    };
+
+    wbConfig.config.vms = vms.concat(vm);
+    return vm;
+}
+
+export function updateVM(id: string, changes: Partial<Omit<WinboatVM, "id">>): WinboatVM {
+    const wbConfig = WinboatConfig.getInstance();
+    const vm = wbConfig.config.vms.find(vm => vm.id === id);
+
+    if (!vm) {
+        throw new Error(`No VM with id '${id}' is registered`);
+    }
+
+    const updatedVM = { ...vm, ...changes };
+    wbConfig.config.vms = wbConfig.config.vms.map(vm => (vm.id === id ? updatedVM : vm));
+
+    return updatedVM;
+}
+
+/**
+ * Removes a VM from the registry, falling back to the default VM if it was selected
+ */
+export function unregisterVM(id: string): void {
+    if (id === DEFAULT_VM_ID) {
+        throw new Error("The default VM can't be unregistered");
+    }
+
+    const wbConfig = WinboatConfig.getInstance();
+    wbConfig.config.vms = wbConfig.config.vms.filter(vm => vm.id !== id);
+
+    if (wbConfig.config.activeVMId === id) {
+        wbConfig.config.activeVMId = DEFAULT_VM_ID;
+    }
+}
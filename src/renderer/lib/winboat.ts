@@ -1,13 +1,14 @@
 import { ref, type Ref } from "vue";
-import { WINBOAT_DIR } from "./constants";
+import { DEFAULT_VM_ID, WINBOAT_DIR } from "./constants";
 import type {
     ComposeConfig,
     CustomAppCallbacks,
     GuestArchitecture,
-    GuestServerUpdateResponse,
-    GuestServerVersion,
+    GuestDiskExtendResponse,
+    LaunchProfile,
     Metrics,
     WinApp,
+    WinboatVM,
 } from "../../types";
 import { createLogger } from "../utils/log";
 import { AppIcons } from "../data/appicons";
@@ -15,8 +16,9 @@ import YAML from "yaml";
 import { InternalApps } from "../data/internalapps";
 import { getFreeRDP } from "../utils/getFreeRDP";
 import { openLink } from "../utils/openLink";
-import { MultiMonitorMode, WinboatConfig } from "./config";
-import { QMPManager } from "./qmp";
+import { parseDiskSizeGB } from "../utils/diskSize";
+import { IdleAction, WinboatConfig } from "./config";
+import { QMPManager, type QMPStatusInfo } from "./qmp";
 import { assert } from "@vueuse/core";
 import { setIntervalImmediately } from "../utils/interval";
 import { ExecFileAsyncError } from "./exec-helper";
@@ -30,19 +32,32 @@ import {
     getSupportedRuntimeKinds,
 } from "./runtimes/common";
 import { type RuntimeManager } from "./runtimes/runtime";
+import { getActiveVM, getVM, getVMs, unregisterVM, updateVM } from "./vms";
+import { LauncherManager } from "./launchers";
+import { resolveGuestPaths } from "./sharing";
+import { GuestApiClient, GuestRequestError, GuestUnauthorizedError } from "./guestapi";
+import { MockGuestServer } from "./mock-guest-server";
+import { MetricsHistory } from "./metrics-history";
+import { AlertManager } from "./alerts";
+import { ShutdownOrchestrator } from "./shutdown";
+import { SnapshotManager } from "./snapshots";
+import { SessionManager } from "./sessions";
+import { getComposeBackupDir, pruneComposeBackups, readComposeBackup, type ComposeBackup } from "./compose-backups";
+import { deleteVMPassword, getVMPassword, PASSWORD_PLACEHOLDER, setVMPassword } from "./secrets";
+import { FREERDP_EXIT_CODES, getFreeRDPFailure } from "./freerdp-errors";
+import { buildFreeRDPArgs, isEmptyLaunchProfile, resolveLaunchSettings } from "./launch-profiles";
 
-const nodeFetch: typeof import("node-fetch").default = require("node-fetch");
 const fs: typeof import("fs") = require("node:fs");
 const path: typeof import("path") = require("node:path");
+const os: typeof import("os") = require("node:os");
 const process: typeof import("process") = require("node:process");
 const { promisify }: typeof import("util") = require("node:util");
 const { exec }: typeof import("child_process") = require("node:child_process");
 const remote: typeof import("@electron/remote") = require("@electron/remote");
-const FormData: typeof import("form-data") = require("form-data");
 const argon2: typeof import("argon2") = require("argon2");
+const checkDiskSpace: typeof import("check-disk-space").default = require("check-disk-space").default;
 
 const execAsync = promisify(exec);
-const USAGE_PATH = path.join(WINBOAT_DIR, "appUsage.json");
 export const logger = createLogger(path.join(WINBOAT_DIR, "winboat.log"));
 
 enum CustomAppCommands {
@@ -76,26 +91,6 @@ const presetApps: WinApp[] = [
     },
 ];
 
-/**
- * The stock RDP args that apply to all app launches by default
- */
-const stockArgs = [
-    "/cert:ignore",
-    "+clipboard",
-    "/sound:sys:pulse",
-    "/microphone:sys:pulse",
-    "/floatbar",
-    "/compression",
-    "/sec:tls",
-];
-
-/**
- * Returns second/original param if first is undefined or null, else first/test param
- */
-const useOriginalIfUndefinedOrNull = (test: string | undefined, original: string) => {
-    return test ?? original;
-};
-
 /**
  * For specifying custom behavior when launching an app (e.g. novnc)
  * Maps a {@link WinApp.Path} to a callback, which is called in {@link Winboat.launchApp} if specified
@@ -108,7 +103,61 @@ const customAppCallbacks: CustomAppCallbacks = {
 };
 
 const QMP_WAIT_MS = 2000;
-const FETCH_TIMEOUT = 1000;
+const STATUS_POLL_FALLBACK_MS = 5000;
+const STATUS_STREAM_RETRY_POLLS = 6;
+// How long launching an app waits for a paused or stopped VM to come back
+const BOOT_TIMEOUT_MS = 3 * 60 * 1000;
+const BOOT_POLL_MS = 1000;
+const QMP_CONNECT_TIMEOUT_MS = 3000;
+// How much of FreeRDP's output is logged when a session fails
+const FREERDP_OUTPUT_LOG_LINES = 20;
+
+/**
+ * The steps a VM goes through before queued launches run, see {@link Winboat.ensureRunning}
+ */
+export enum BootStage {
+    STARTING_CONTAINER = "Starting the container",
+    WAITING_FOR_GUEST = "Waiting for Windows",
+    CHECKING_GUEST_SERVER = "Checking the guest server",
+}
+
+export const BOOT_STAGES = Object.values(BootStage);
+
+export class BootTimeoutError extends Error {
+    constructor(
+        message: string,
+        readonly stage: BootStage,
+    ) {
+        super(message);
+    }
+}
+
+/**
+ * The disk can't be grown to the requested size
+ */
+export class DiskResizeError extends Error {}
+
+/**
+ * The Windows credentials couldn't be rotated, `rolledBack` tells whether the old ones are still in effect
+ */
+export class CredentialRotationError extends Error {
+    constructor(
+        message: string,
+        readonly rolledBack: boolean,
+    ) {
+        super(message);
+    }
+}
+
+/**
+ * A launch waiting for the VM to boot, `error` is set if it didn't make it
+ */
+export type QueuedLaunch = {
+    id: number;
+    appName: string;
+    since: number;
+    error: string | null;
+};
 
 function normalizeGuestArchitectureToken(archToken: string | undefined): GuestArchitecture | null {
     if (!archToken) {
@@ -129,20 +178,92 @@ function normalizeGuestArchitectureToken(archToken: string | undefined): GuestAr
 class AppManager {
     appCache: WinApp[] = [];
     appUsageCache: { [key: string]: number } = {};
-    readonly #wbConfig: WinboatConfig | null = null;
+    readonly #vmId: string;
+    readonly #usagePath: string;
+    readonly launchers: LauncherManager;
+    readonly #guestApi: GuestApiClient;
+
+    constructor(vm: WinboatVM, guestApi: GuestApiClient) {
+        this.#vmId = vm.id;
+        this.#guestApi = guestApi;
+        this.launchers = new LauncherManager(vm);
+        this.#usagePath = path.join(vm.dataDir, "appUsage.json");
+
+        if (!fs.existsSync(this.#usagePath)) {
+            fs.mkdirSync(vm.dataDir, { recursive: true });
+            fs.writeFileSync(this.#usagePath, "{}");
+        }
+    }
+
+    get #customApps(): WinApp[] {
+        return getVM(this.#vmId)?.customApps ?? [];
+    }
+
+    set #customApps(customApps: WinApp[]) {
+        updateVM(this.#vmId, { customApps });
+    }
+
+    get #mimeTypes(): { [appName: string]: string[] } {
+        return getVM(this.#vmId)?.mimeTypes ?? {};
+    }
+
+    set #mimeTypes(mimeTypes: { [appName: string]: string[] }) {
+        updateVM(this.#vmId, { mimeTypes });
+    }
+
+    /**
+     * Returns the MIME types an app opens on the host
+     */
+    getMimeTypes(appName: string): string[] {
+        return this.#mimeTypes[appName] ?? [];
+    }
+
+    /**
+     * Registers an app as the host's handler for the given MIME types, which needs an exported launcher
+     * @param app The app to register
+     * @param mimeTypes The MIME types, an empty list unregisters the app
+     */
+    async setMimeTypes(app: WinApp, mimeTypes: string[]) {
+        const otherMimeTypes = Object.fromEntries(Object.entries(this.#mimeTypes).filter(([key]) => key !== app.Name));
+        this.#mimeTypes = mimeTypes.length ? { ...otherMimeTypes, [app.Name]: mimeTypes } : otherMimeTypes;
+
+        if (!LauncherManager.isSupported) return;
 
-    constructor() {
-        if (!fs.existsSync(USAGE_PATH)) {
-            fs.writeFileSync(USAGE_PATH, "{}");
+        if (mimeTypes.length || this.launchers.isExported(app.Name)) {
+            await this.launchers.export(app, mimeTypes);
         }
+    }
 
-        this.#wbConfig = WinboatConfig.getInstance();
+    get #launchProfiles(): { [appName: string]: LaunchProfile } {
+        return getVM(this.#vmId)?.launchProfiles ?? {};
+    }
+
+    set #launchProfiles(launchProfiles: { [appName: string]: LaunchProfile }) {
+        updateVM(this.#vmId, { launchProfiles });
+    }
+
+    /**
+     * Returns the launch profile of an app, custom apps carry theirs while discovered apps use the VM's overrides
+     */
+    getLaunchProfile(app: WinApp): LaunchProfile | undefined {
+        return app.Source === "custom" ? app.Profile : this.#launchProfiles[app.Name];
+    }
+
+    /**
+     * Overrides the global RDP settings for a discovered app, custom apps are updated through
+     * {@link updateCustomApp} instead
+     * @param profile The overrides, an empty profile removes them
+     */
+    setLaunchProfile(app: WinApp, profile: LaunchProfile) {
+        const { [app.Name]: _previous, ...otherProfiles } = this.#launchProfiles;
+        this.#launchProfiles = isEmptyLaunchProfile(profile)
+            ? otherProfiles
+            : { ...otherProfiles, [app.Name]: profile };
     }
 
-    async updateAppCache(apiURL: string, options: { forceRead?: boolean } = {}) {
-        const res = await nodeFetch(`${apiURL}/apps`);
-        const newApps = (await res.json()) as WinApp[];
-        newApps.push(...presetApps, ...this.#wbConfig!.config.customApps);
+    async updateAppCache(options: { forceRead?: boolean } = {}) {
+        const newApps = await this.#guestApi.getApps();
+        newApps.push(...presetApps, ...this.#customApps);
 
         if (this.appCache.values.length == newApps.length && !options.forceRead) return;
 
@@ -154,13 +275,13 @@ class AppManager {
         this.appCache = newApps;
     }
 
-    async getApps(apiURL: string): Promise<WinApp[]> {
+    async getApps(): Promise<WinApp[]> {
         if (this.appCache.length > 0) {
             return this.appCache;
         }
 
         // Get the usage object that's on the disk
-        const fsUsage = Object.entries(JSON.parse(fs.readFileSync(USAGE_PATH, "utf-8"))) as any[];
+        const fsUsage = Object.entries(JSON.parse(fs.readFileSync(this.#usagePath, "utf-8"))) as any[];
         this.appCache = [];
 
         // Populate appCache with dummy WinApp object containing data from the disk
@@ -172,7 +293,7 @@ class AppManager {
             });
         }
 
-        await this.updateAppCache(apiURL, { forceRead: true });
+        await this.updateAppCache({ forceRead: true });
 
         const appCacheHumanReadable = this.appCache.map(obj => {
             const res = { ...obj } as any;
@@ -191,7 +312,7 @@ class AppManager {
     }
 
     async writeToDisk() {
-        fs.writeFileSync(USAGE_PATH, JSON.stringify(this.appUsageCache));
+        fs.writeFileSync(this.#usagePath, JSON.stringify(this.appUsageCache));
     }
 
     /**
@@ -200,8 +321,9 @@ class AppManager {
      * @param path Path of the app
      * @param args Args of the app
      * @param icon Icon of the app
+     * @param profile Launch profile of the app
      */
-    async addCustomApp(name: string, path: string, args: string, icon: string) {
+    async addCustomApp(name: string, path: string, args: string, icon: string, profile?: LaunchProfile) {
         const customWinApp: WinApp = {
             Name: name,
             Path: path,
@@ -209,14 +331,22 @@ class AppManager {
             Icon: icon,
             Source: "custom",
             Usage: 0,
+            Profile: isEmptyLaunchProfile(profile) ? undefined : profile,
         };
         this.appCache.push(customWinApp);
         this.appUsageCache[name] = 0;
         await this.writeToDisk();
-        this.#wbConfig!.config.customApps = this.#wbConfig!.config.customApps.concat(customWinApp);
+        this.#customApps = this.#customApps.concat(customWinApp);
+        await this.launchers.sync(customWinApp, this.getMimeTypes(name));
     }
 
-    async updateCustomApp(oldName: string, updatedApp: { Name: string; Path: string; Args: string; Icon: string }) {
+    async updateCustomApp(
+        oldName: string,
+        updatedApp: { Name: string; Path: string; Args: string; Icon: string; Profile?: LaunchProfile },
+    ) {
+        if (isEmptyLaunchProfile(updatedApp.Profile)) {
+            updatedApp = { ...updatedApp, Profile: undefined };
+        }
         this.appCache = this.appCache.map(app => (app.Name === oldName ? { ...app, ...updatedApp } : app));
 
         // update appUsage if name changed
@@ -226,9 +356,18 @@ class AppManager {
         }
 
         // update persisted app config
-        this.#wbConfig!.config.customApps = this.#wbConfig!.config.customApps.map(app =>
-            app.Name == oldName ? { ...app, ...updatedApp } : app,
-        );
+        this.#customApps = this.#customApps.map(app => (app.Name == oldName ? { ...app, ...updatedApp } : app));
+        const syncedApp = this.appCache.find(app => app.Name === updatedApp.Name) ?? {
+            ...updatedApp,
+            Source: "custom",
+        };
+
+        if (oldName !== updatedApp.Name && this.#mimeTypes[oldName]) {
+            const { [oldName]: mimeTypes, ...otherMimeTypes } = this.#mimeTypes;
+            this.#mimeTypes = { ...otherMimeTypes, [updatedApp.Name]: mimeTypes };
+        }
+
+        await this.launchers.sync(syncedApp, this.getMimeTypes(updatedApp.Name), oldName);
 
         await this.writeToDisk();
     }
@@ -241,17 +380,29 @@ class AppManager {
         this.appCache = this.appCache.filter(a => a.Name !== app.Name);
         this.appUsageCache = Object.fromEntries(Object.entries(this.appUsageCache).filter(([key]) => key !== app.Name));
         await this.writeToDisk();
-        this.#wbConfig!.config.customApps = this.#wbConfig!.config.customApps.filter(a => a.Name !== app.Name);
+        this.#customApps = this.#customApps.filter(a => a.Name !== app.Name);
+        this.#mimeTypes = Object.fromEntries(Object.entries(this.#mimeTypes).filter(([key]) => key !== app.Name));
+        await this.launchers.remove(app.Name);
     }
 }
 
 export class Winboat {
-    private static instance: Winboat | null = null;
+    private static instances: Map<string, Winboat> = new Map();
     // Update Intervals
     #healthInterval: NodeJS.Timeout | null = null;
     #metricsInverval: NodeJS.Timeout | null = null;
     #rdpConnectionStatusInterval: NodeJS.Timeout | null = null;
     #qmpInterval: NodeJS.Timeout | null = null;
+    // Only used while the container's event stream is down
+    #statusPollInterval: NodeJS.Timeout | null = null;
+    // Last time someone was connected over RDP or launched an app, see `#checkIdle`
+    #lastActivity = Date.now();
+    // Set once the guest server's version has been checked after it came online
+    #guestServerChecked = false;
+    #bootPromise: Promise<void> | null = null;
+    #nextLaunchId = 0;
+    // Unbinds the listeners on the container's events, see `dispose`
+    #unbindContainerEvents: (() => void)[] = [];
 
     // Variables
     isOnline: Ref<boolean> = ref(false);
@@ -259,6 +410,9 @@ export class Winboat {
     containerStatus: Ref<RuntimeStatus> = ref(RuntimeStatus.EXITED);
     containerActionLoading: Ref<boolean> = ref(false);
     rdpConnected: Ref<boolean> = ref(false);
+    // The step the VM is at while launches wait for it to boot, `null` otherwise
+    bootStage: Ref<BootStage | null> = ref(null);
+    queuedLaunches: Ref<QueuedLaunch[]> = ref([]);
     metrics: Ref<Metrics> = ref<Metrics>({
         cpu: {
             usage: 0,
@@ -279,13 +433,34 @@ export class Winboat {
     appMgr: AppManager | null = null;
     qmpMgr: QMPManager | null = null;
     containerMgr: RuntimeManager | null = null;
+    readonly vm: WinboatVM;
+    readonly guestApi: GuestApiClient = new GuestApiClient(() => this.apiUrl);
+    readonly metricsHistory: MetricsHistory;
+    readonly alerts: AlertManager;
+    readonly shutdown: ShutdownOrchestrator;
+    readonly snapshots: SnapshotManager;
+    readonly sessions: SessionManager = new SessionManager();
+    // Stands in for the guest server of every VM when WINBOAT_MOCK_GUEST is set, see MockGuestServer
+    static #mockGuestServer: MockGuestServer | null = null;
+
+    /**
+     * Returns the instance managing the given VM, or the currently selected one if omitted
+     */
+    static getInstance(vmId: string = getActiveVM().id) {
+        if (!Winboat.instances.has(vmId)) {
+            const vm = getVM(vmId);
+            if (!vm) {
+                throw new Error(`No VM with id '${vmId}' is registered`);
+            }
 
-    static getInstance() {
-        Winboat.instance ??= new Winboat();
-        return Winboat.instance;
+            Winboat.instances.set(vmId, new Winboat(vm));
+        }
+
+        return Winboat.instances.get(vmId)!;
     }
 
-    private constructor() {
+    private constructor(vm: WinboatVM) {
+        this.vm = vm;
         this.#wbConfig = WinboatConfig.getInstance();
 
         const configuredRuntime = this.#wbConfig.config.containerRuntime;
@@ -297,26 +472,141 @@ export class Winboat {
             this.#wbConfig.config.containerRuntime = fallbackRuntime;
         }
 
-        this.containerMgr = createRuntime(this.#wbConfig.config.containerRuntime);
+        this.containerMgr = createRuntime(this.#wbConfig.config.containerRuntime, vm);
+
+        // VMs from before the registry existed don't know their storage folder yet
+        if (!vm.storageFolder && fs.existsSync(this.containerMgr.composeFilePath)) {
+            const storageFolder = Winboat.getStorageFolder(Winboat.readCompose(this.containerMgr.composeFilePath));
+            if (storageFolder) {
+                this.vm = updateVM(vm.id, { storageFolder });
+            }
+        }
 
-        // This is a special interval which will never be destroyed
-        setInterval(async () => {
-            const _containerStatus = await this.containerMgr!.getStatus();
+        this.appMgr = new AppManager(vm, this.guestApi);
+        this.metricsHistory = new MetricsHistory(vm);
+        this.alerts = new AlertManager(vm, () => this.#wbConfig!.config.alertRules);
+        this.shutdown = new ShutdownOrchestrator(
+            this.containerMgr,
+            () => this.#getQMP(),
+            () => ({
+                guestSeconds: this.#wbConfig!.config.guestShutdownTimeoutSeconds,
+                runtimeSeconds: this.#wbConfig!.config.runtimeStopTimeoutSeconds,
+            }),
+        );
+        this.snapshots = new SnapshotManager(vm, () => this.#getQMP(), {
+            resolvePath: qemuPath => this.containerMgr!.resolveHostPath(qemuPath),
+            stopVM: () => this.stopContainer(),
+            startVM: () => this.startContainer(),
+        });
 
-            if (_containerStatus !== this.containerStatus.value) {
-                this.containerStatus.value = _containerStatus;
-                logger.info(`Winboat Container state changed to ${_containerStatus}`);
+        if (process.env.WINBOAT_MOCK_GUEST) {
+            this.#startWithMockGuest();
+            return;
+        }
 
-                if (_containerStatus === RuntimeStatus.RUNNING) {
-                    await this.containerMgr!.port(); // Cache active port mappings
-                    await this.createAPIIntervals();
-                } else {
-                    await this.destroyAPIIntervals();
-                }
-            }
-        }, 1000);
+        this.#unbindContainerEvents = [
+            this.containerMgr.events.on("statusChanged", status => this.#updateContainerStatus(status)),
+            this.containerMgr.events.on("streamClosed", () => this.#startStatusPolling()),
+        ];
+        this.#startStatusStream();
+    }
+
+    /**
+     * Disposes the instances of every VM but the selected one, so that VMs the user switched away from
+     * stop being watched
+     */
+    static async disposeInactive() {
+        const activeVMId = getActiveVM().id;
+
+        for (const [vmId, instance] of Winboat.instances) {
+            if (vmId !== activeVMId) await instance.dispose();
+        }
+    }
+
+    /**
+     * Stops following the VM's status, metrics and QMP and forgets the instance, the next
+     * {@link getInstance} creates a fresh one. FreeRDP sessions that were launched keep running
+     */
+    async dispose() {
+        Winboat.instances.delete(this.vm.id);
 
-        this.appMgr = new AppManager();
+        this.#unbindContainerEvents.forEach(unbind => unbind());
+        this.#unbindContainerEvents = [];
+        this.containerMgr?.stopEventStream();
+
+        if (this.#statusPollInterval) {
+            clearInterval(this.#statusPollInterval);
+            this.#statusPollInterval = null;
+        }
+
+        await this.destroyAPIIntervals();
+        // Snapshots connect to QMP on demand, without the QMP interval
+        this.qmpMgr?.qmpSocket.destroy();
+        this.qmpMgr = null;
+
+        logger.info(`Disposed the instance of VM '${this.vm.id}'`);
+    }
+
+    /**
+     * Pretends the container is running and points the guest API at an in-process mock,
+     * so that the UI can be worked on without a Windows VM
+     */
+    async #startWithMockGuest() {
+        Winboat.#mockGuestServer ??= new MockGuestServer();
+        const url = await Winboat.#mockGuestServer.start();
+        logger.warn(`WINBOAT_MOCK_GUEST is set, using the mock guest server at ${url}`);
+
+        this.containerStatus.value = RuntimeStatus.RUNNING;
+        await this.createAPIIntervals();
+    }
+
+    async #updateContainerStatus(_containerStatus: RuntimeStatus) {
+        if (_containerStatus === this.containerStatus.value) return;
+
+        this.containerStatus.value = _containerStatus;
+        logger.info(`Winboat Container state changed to ${_containerStatus}`);
+
+        if (_containerStatus === RuntimeStatus.RUNNING) {
+            await this.containerMgr!.port(); // Cache active port mappings
+            await this.createAPIIntervals();
+        } else {
+            await this.destroyAPIIntervals();
+        }
+    }
+
+    /**
+     * Follows the container's status through its runtime's event stream, falling back to polling if that fails
+     */
+    async #startStatusStream() {
+        if (!(await this.containerMgr!.startEventStream())) {
+            this.#startStatusPolling();
+            return;
+        }
+
+        if (this.#statusPollInterval) {
+            clearInterval(this.#statusPollInterval);
+            this.#statusPollInterval = null;
+            logger.info("Container event stream is back, stopped polling");
+        }
+
+        // Events only tell us about changes, so we need to know where we're starting from
+        this.containerMgr!.getStatus().then(status => this.#updateContainerStatus(status));
+    }
+
+    #startStatusPolling() {
+        if (this.#statusPollInterval) return;
+
+        logger.warn(`Container event stream unavailable, polling status every ${STATUS_POLL_FALLBACK_MS}ms`);
+        let pollCount = 0;
+
+        this.#statusPollInterval = setInterval(async () => {
+            await this.#updateContainerStatus(await this.containerMgr!.getStatus());
+
+            // The runtime's daemon might have been restarted, so try to get back to events every now and then
+            if (++pollCount % STATUS_STREAM_RETRY_POLLS === 0) {
+                this.#startStatusStream();
+            }
+        }, STATUS_POLL_FALLBACK_MS);
     }
 
     /**
@@ -324,6 +614,8 @@ export class Winboat {
      */
     async createAPIIntervals() {
         logger.info("Creating Winboat API intervals...");
+        // The container just came up, so the idle timeout starts over
+        this.#lastActivity = Date.now();
         const HEALTH_WAIT_MS = 1000;
         const METRICS_WAIT_MS = 1000;
         const RDP_STATUS_WAIT_MS = 1000;
@@ -342,9 +634,22 @@ export class Winboat {
                 logger.info(`Winboat Guest API went ${this.isOnline ? "online" : "offline"}`);
 
                 if (this.isOnline.value) {
-                    await this.checkVersionAndUpdateGuestServer();
+                    try {
+                        await this.checkVersionAndUpdateGuestServer();
+                    } finally {
+                        this.#guestServerChecked = true;
+                    }
+                } else {
+                    this.#guestServerChecked = false;
                 }
             }
+
+            this.alerts.evaluate({
+                // Metrics go stale while the guest is offline or updating
+                metrics: this.isOnline.value && !this.isUpdatingGuestServer.value ? this.metrics.value : null,
+                isOnline: this.isOnline.value,
+                containerRunning: this.containerStatus.value === RuntimeStatus.RUNNING,
+            });
         }, HEALTH_WAIT_MS);
 
         // *** Metrics Interval ***
@@ -358,6 +663,7 @@ export class Winboat {
             // If the guest is offline or updating, don't bother checking metrics
             if (!this.isOnline.value || this.isUpdatingGuestServer.value) return;
             this.metrics.value = await this.getMetrics();
+            this.metricsHistory.record(this.metrics.value);
         }, METRICS_WAIT_MS);
 
         // *** RDP Connection Status Interval ***
@@ -383,6 +689,8 @@ export class Winboat {
                 this.rdpConnected.value = _rdpConnected;
                 logger.info(`RDP connection status changed to ${_rdpConnected ? "connected" : "disconnected"}`);
             }
+
+            await this.#checkIdle();
         }, RDP_STATUS_WAIT_MS);
 
         // *** QMP Interval ***
@@ -409,6 +717,9 @@ export class Winboat {
             this.#healthInterval = null;
             // Side-effect: Set isOnline to false
             this.isOnline.value = false;
+            this.#guestServerChecked = false;
+            // Nothing to watch while the container isn't running
+            this.alerts.clear();
         }
 
         if (this.#metricsInverval) {
@@ -443,23 +754,15 @@ export class Winboat {
 
     async getHealth() {
         // If /health returns 200, then the guest is ready
-        try {
-            const res = await nodeFetch(`${this.apiUrl}/health`, { signal: AbortSignal.timeout(FETCH_TIMEOUT) });
-            return res.status === 200;
-        } catch {
-            return false;
-        }
+        return await this.guestApi.isHealthy();
     }
 
     async getMetrics() {
-        const res = await nodeFetch(`${this.apiUrl}/metrics`, { signal: AbortSignal.timeout(FETCH_TIMEOUT) });
-        const metrics = (await res.json()) as Metrics;
-        return metrics;
+        return await this.guestApi.getMetrics();
     }
 
     async getRDPConnectedStatus() {
-        const res = await nodeFetch(`${this.apiUrl}/rdp/status`, { signal: AbortSignal.timeout(FETCH_TIMEOUT) });
-        const status = (await res.json()) as { rdpConnected: boolean };
+        const status = await this.guestApi.getRDPStatus();
         return status.rdpConnected;
     }
 
@@ -469,20 +772,33 @@ export class Winboat {
         return composeContents;
     }
 
-    getCredentials() {
-        const compose = Winboat.readCompose(this.containerMgr!.composeFilePath);
+    /**
+     * Returns the host folder bound to the guest's `/storage`, or `null` if it's a (legacy) named volume
+     */
+    static getStorageFolder(compose: ComposeConfig): string | null {
+        const storage = compose.services.windows.volumes.find(vol => vol.includes("/storage"));
+        if (!storage || storage.startsWith("data:")) return null;
+
+        return storage.split(":").at(0) ?? null;
+    }
+
+    /**
+     * Returns the Windows account's credentials, the password comes from the secret store.
+     * Compose files that haven't been migrated yet still hold it in plaintext
+     */
+    async getCredentials() {
+        const environment = Winboat.readCompose(this.containerMgr!.composeFilePath).services.windows.environment;
+        const password = await getVMPassword(this.vm);
+
         return {
-            username: compose.services.windows.environment.USERNAME,
-            password: compose.services.windows.environment.PASSWORD,
+            username: environment.USERNAME,
+            password: password ?? (environment.PASSWORD === PASSWORD_PLACEHOLDER ? "" : environment.PASSWORD),
         };
     }
 
     async #connectQMPManager() {
         try {
-            this.qmpMgr = await QMPManager.createConnection(
-                "127.0.0.1",
-                getActiveHostPort(this.containerMgr!, CommonPorts.QMP)!,
-            ).catch(e => {
+            this.qmpMgr = await QMPManager.createConnection("127.0.0.1", this.containerMgr!.getQMPPort()!).catch(e => {
                 logger.error(e);
                 throw e;
             });
@@ -498,6 +814,61 @@ export class Winboat {
         }
     }
 
+    /**
+     * Returns a QMP connection for one-off commands like shutting down or snapshots,
+     * reusing the QMP interval's one if it exists since QEMU only serves a single client
+     */
+    async #getQMP(): Promise<QMPManager | null> {
+        if (this.qmpMgr && (await this.qmpMgr.isAlive())) return this.qmpMgr;
+
+        const qmpPort = this.containerMgr!.getQMPPort();
+        if (!qmpPort) return null;
+
+        const connection = QMPManager.createConnection("127.0.0.1", qmpPort);
+        let timeout: NodeJS.Timeout | undefined;
+
+        try {
+            const qmpMgr = await Promise.race([
+                connection,
+                new Promise<null>(resolve => (timeout = setTimeout(() => resolve(null), QMP_CONNECT_TIMEOUT_MS))),
+            ]);
+
+            if (!qmpMgr) {
+                logger.warn("Timed out connecting to QMP, is another client connected?");
+                connection.then(lateMgr => lateMgr.qmpSocket.destroy()).catch(() => {});
+                return null;
+            }
+
+            await qmpMgr.executeCommand("qmp_capabilities");
+            this.qmpMgr = qmpMgr;
+            return qmpMgr;
+        } catch (e) {
+            logger.warn("Failed to connect to QMP");
+            logger.warn(e);
+            return null;
+        } finally {
+            clearTimeout(timeout);
+        }
+    }
+
+    /**
+     * Asks QEMU for the VM's run state
+     * @returns `null` if QMP isn't reachable or the query failed
+     */
+    async queryQMPStatus(): Promise<QMPStatusInfo | null> {
+        const qmp = await this.#getQMP();
+        if (!qmp) return null;
+
+        try {
+            const response = await qmp.executeCommand("query-status");
+            return "return" in response ? response.return : null;
+        } catch (e) {
+            logger.warn("Failed to query the QMP status");
+            logger.warn(e);
+            return null;
+        }
+    }
+
     createQMPInterval() {
         logger.info("[createQMPInterval] Creating new QMP Interval");
         this.#qmpInterval = setIntervalImmediately(async () => {
@@ -517,6 +888,109 @@ export class Winboat {
         }, QMP_WAIT_MS);
     }
 
+    /**
+     * Pauses or stops the container once nobody has been connected over RDP for `idleTimeoutMinutes`
+     */
+    async #checkIdle() {
+        const { idleAction, idleTimeoutMinutes } = this.#wbConfig!.config;
+
+        if (idleAction === IdleAction.None || this.rdpConnected.value || this.containerActionLoading.value) {
+            this.#lastActivity = Date.now();
+            return;
+        }
+
+        if (Date.now() - this.#lastActivity < idleTimeoutMinutes * 60 * 1000) return;
+
+        logger.info(`No RDP session for ${idleTimeoutMinutes} minutes, idle action: ${idleAction}`);
+        this.#lastActivity = Date.now();
+
+        try {
+            if (idleAction === IdleAction.Pause) {
+                await this.pauseContainer();
+            } else {
+                await this.stopContainer();
+            }
+        } catch (e) {
+            logger.error("Failed to perform the idle action");
+            logger.error(e);
+            this.containerActionLoading.value = false;
+        }
+    }
+
+    /**
+     * Whether apps can be launched right away, without booting the VM first
+     */
+    get isReady(): boolean {
+        return (
+            this.containerStatus.value === RuntimeStatus.RUNNING &&
+            this.isOnline.value &&
+            this.#guestServerChecked &&
+            !this.isUpdatingGuestServer.value
+        );
+    }
+
+    /**
+     * Unpauses or starts the container if needed, then waits for the guest server to be ready.
+     * Concurrent callers share the same boot
+     * @throws {BootTimeoutError} If the VM isn't ready within {@link BOOT_TIMEOUT_MS}
+     */
+    async ensureRunning() {
+        this.#lastActivity = Date.now();
+
+        if (process.env.WINBOAT_MOCK_GUEST || this.isReady) return;
+
+        this.#bootPromise ??= this.#boot().finally(() => {
+            this.#bootPromise = null;
+            this.bootStage.value = null;
+        });
+
+        await this.#bootPromise;
+
+        // Windows may have been asleep for a while, don't let the idle timeout kick in right away
+        this.#lastActivity = Date.now();
+    }
+
+    async #boot() {
+        const deadline = Date.now() + BOOT_TIMEOUT_MS;
+        const waitFor = async (stage: BootStage, condition: () => boolean | Promise<boolean>) => {
+            this.bootStage.value = stage;
+            logger.info(`[boot] ${stage}`);
+
+            while (!(await condition())) {
+                if (Date.now() > deadline) {
+                    throw new BootTimeoutError(
+                        `Windows did not finish booting within ${BOOT_TIMEOUT_MS / 1000} seconds (stuck at: ${stage})`,
+                        stage,
+                    );
+                }
+
+                await new Promise(resolve => setTimeout(resolve, BOOT_POLL_MS));
+            }
+        };
+
+        // The status ref lags behind the runtime's events, and isn't set at all yet in the CLI
+        this.bootStage.value = BootStage.STARTING_CONTAINER;
+        const status = await this.containerMgr!.getStatus();
+
+        if (status === RuntimeStatus.PAUSED) {
+            logger.info("Container is paused, unpausing it to launch an app");
+            await this.unpauseContainer();
+        } else if (status !== RuntimeStatus.RUNNING) {
+            logger.info(`Container is ${status}, starting it to launch an app`);
+            await this.startContainer();
+        }
+
+        await waitFor(
+            BootStage.STARTING_CONTAINER,
+            async () => (await this.containerMgr!.getStatus()) === RuntimeStatus.RUNNING,
+        );
+        await this.containerMgr!.port(); // Cache active port mappings
+
+        await waitFor(BootStage.WAITING_FOR_GUEST, () => this.getHealth());
+        // The health interval checks the guest server's version once it's online, and updates it if needed
+        await waitFor(BootStage.CHECKING_GUEST_SERVER, () => this.isReady);
+    }
+
     async startContainer() {
         logger.info("Starting WinBoat container...");
         this.containerActionLoading.value = true;
@@ -531,12 +1005,22 @@ export class Winboat {
         this.containerActionLoading.value = false;
     }
 
+    /**
+     * Shuts Windows down gracefully, and only stops or kills the container if it doesn't react in time.
+     * See {@link ShutdownOrchestrator}
+     */
     async stopContainer() {
         logger.info("Stopping WinBoat container...");
         this.containerActionLoading.value = true;
-        await this.containerMgr!.container("stop");
-        logger.info("Successfully stopped WinBoat container");
-        this.containerActionLoading.value = false;
+        try {
+            const phase = await this.shutdown.shutdown();
+            logger.info(`Successfully stopped WinBoat container (${phase})`);
+        } finally {
+            // The connection is dead either way once QEMU is gone
+            this.qmpMgr?.qmpSocket.destroy();
+            this.qmpMgr = null;
+            this.containerActionLoading.value = false;
+        }
     }
 
     async restartContainer() {
@@ -580,40 +1064,254 @@ export class Winboat {
 
         const composeFilePath = this.containerMgr!.composeFilePath;
 
-        // 0. Stop the current container if it's online
-        if (this.containerStatus.value === RuntimeStatus.RUNNING) {
+        try {
+            // 0. Serialize the new compose first, so that a compose which can't be written doesn't take the VM down
+            this.containerMgr!.stringifyCompose(composeConfig);
+
+            // 1. Create a backup directory if it doesn't exist
+            const backupDir = getComposeBackupDir(this.vm);
+
+            if (!fs.existsSync(backupDir)) {
+                fs.mkdirSync(backupDir);
+                logger.info(`Created compose backup dir: ${backupDir}`);
+            }
+
+            // 2. Back up the current compose file, it stays in place since compose down needs it
+            const backupPath = path.join(backupDir, `${Date.now()}-${path.basename(composeFilePath)}`);
+            fs.copyFileSync(composeFilePath, backupPath);
+            logger.info(`Backed up current compose at: ${backupPath}`);
+            pruneComposeBackups(this.vm, {
+                keepLast: this.#wbConfig!.config.composeBackupKeepLast,
+                maxAgeDays: this.#wbConfig!.config.composeBackupMaxAgeDays,
+            });
+
+            // 3. Stop the current container if it's online
+            if (this.containerStatus.value === RuntimeStatus.RUNNING) {
+                if (this.#wbConfig?.config.autoSnapshots) {
+                    await this.snapshots.createAutomatic("replacing the compose file");
+                }
+
+                await this.stopContainer();
+            }
+
+            // 4. Compose down the current container
+            await this.containerMgr!.compose("down");
+
+            // 5. Write the new compose file and deploy the container with it, restoring the backup if that fails
+            try {
+                this.containerMgr!.writeCompose(composeConfig);
+                logger.info(`Wrote new compose file to: ${composeFilePath}`);
+
+                await this.containerMgr!.compose("up");
+            } catch (e) {
+                logger.error("Failed to deploy the new compose file, restoring the backup");
+                logger.error(e);
+                fs.copyFileSync(backupPath, composeFilePath);
+
+                try {
+                    await this.containerMgr!.compose("up");
+                } catch (restoreError) {
+                    logger.error("Failed to redeploy the restored compose file");
+                    logger.error(restoreError);
+                }
+
+                throw e;
+            }
+
+            logger.info("Replace compose config completed, successfully deployed new container");
+        } finally {
+            this.containerActionLoading.value = false;
+        }
+    }
+
+    /**
+     * Returns the size of the VM's disk in GB as configured in the compose file, `NaN` if it can't be parsed
+     */
+    static getDiskSizeGB(compose: ComposeConfig): number {
+        return parseDiskSizeGB(compose.services.windows.environment.DISK_SIZE);
+    }
+
+    /**
+     * Grows the VM's disk, which recreates the container, then has Windows extend C: into the new space
+     * @throws {DiskResizeError} If the disk would shrink, or the host doesn't have enough free space
+     * @returns What the guest server reports about extending C:
+     */
+    async growDisk(sizeGB: number): Promise<GuestDiskExtendResponse> {
+        const compose = Winboat.readCompose(this.containerMgr!.composeFilePath);
+        const currentSizeGB = Winboat.getDiskSizeGB(compose);
+
+        if (Number.isNaN(currentSizeGB)) {
+            throw new DiskResizeError(
+                `The disk size '${compose.services.windows.environment.DISK_SIZE}' in the compose file can't be read`,
+            );
+        }
+
+        if (sizeGB <= currentSizeGB) {
+            throw new DiskResizeError(`The disk is ${currentSizeGB} GB already and can't be shrunk`);
+        }
+
+        // Disk images are sparse, but they may well fill up to their full size eventually
+        const storageFolder = Winboat.getStorageFolder(compose)?.replace("${HOME}", os.homedir());
+        if (storageFolder) {
+            const freeGB = Math.floor((await checkDiskSpace(storageFolder)).free / 1024 ** 3);
+            if (freeGB < sizeGB - currentSizeGB) {
+                throw new DiskResizeError(
+                    `Growing the disk by ${sizeGB - currentSizeGB} GB needs as much free space, but only ${freeGB} GB are available`,
+                );
+            }
+        }
+
+        logger.info(`Growing disk from ${currentSizeGB}G to ${sizeGB}G`);
+
+        // The disk image can't change underneath a running VM
+        const status = this.containerStatus.value;
+        if (status === RuntimeStatus.RUNNING || status === RuntimeStatus.PAUSED) {
             await this.stopContainer();
         }
 
-        // 1. Compose down the current container
-        await this.containerMgr!.compose("down");
+        // Every runtime grows the disk when booting with a larger DISK_SIZE, so if replacing the compose fails,
+        // the backup is restored and the disk stays as it was
+        compose.services.windows.environment.DISK_SIZE = `${sizeGB}G`;
+        await this.replaceCompose(compose);
+
+        await this.ensureRunning();
+        const result = await this.guestApi.extendSystemDisk();
+        logger.info(`Extended C: from ${result.previous_size} to ${result.new_size} bytes`);
+
+        return result;
+    }
+
+    /**
+     * Restores a compose backup, the current compose is backed up in turn so the rollback can be undone
+     */
+    async rollbackCompose(backup: ComposeBackup) {
+        logger.info(`Rolling back compose to backup ${backup.fileName}`);
+        await this.replaceCompose(readComposeBackup(backup));
+    }
+
+    /**
+     * Changes the password of the Windows account, together with the auth hash the guest server checks updates against.
+     * The new password has to pass a test RDP login before the secret store and the OEM hash are updated,
+     * if any step fails the guest is rolled back to the old password
+     * @throws {CredentialRotationError} If the password is invalid or the rotation failed
+     */
+    async rotatePassword(newPassword: string) {
+        if (!/^[a-zA-Z0-9]{4,}$/.test(newPassword)) {
+            throw new CredentialRotationError(
+                "The password must be at least 4 characters long and only contain alphanumeric characters",
+                true,
+            );
+        }
+
+        const { username, password } = await this.getCredentials();
+        if (newPassword === password) {
+            throw new CredentialRotationError("The new password is the same as the current one", true);
+        }
+
+        await this.ensureRunning();
 
-        // 2. Create a backup directory if it doesn't exist
-        const backupDir = path.join(WINBOAT_DIR, "backup");
+        // 1. Change the password inside Windows and re-enroll the auth hash
+        logger.info(`[credentials] Rotating the password of '${username}'`);
+        const newHash = await argon2.hash(newPassword);
 
-        if (!fs.existsSync(backupDir)) {
-            fs.mkdirSync(backupDir);
-            logger.info(`Created compose backup dir: ${backupDir}`);
+        try {
+            await this.guestApi.rotateCredentials(password, username, newPassword, newHash);
+        } catch (e) {
+            logger.error("[credentials] The guest server failed to rotate the credentials");
+            logger.error(e);
+
+            const reason =
+                e instanceof GuestUnauthorizedError
+                    ? "The guest server rejected the current password, was it changed inside Windows?"
+                    : e instanceof GuestRequestError && e.status === 404
+                      ? "The guest server is too old to rotate credentials, please update it first"
+                      : `The guest server failed to rotate the credentials: ${e instanceof Error ? e.message : e}`;
+            throw new CredentialRotationError(reason, true);
         }
 
-        // 3. Move the current compose file to backup
-        const backupFile = `${Date.now()}-${path.basename(this.containerMgr!.composeFilePath)}`;
-        fs.renameSync(composeFilePath, path.join(backupDir, backupFile));
-        logger.info(`Backed up current compose at: ${path.join(backupDir, backupFile)}`);
+        // 2. Make sure Windows actually accepts the new password before the host forgets the old one
+        try {
+            if (!(await this.#testRDPAuth(username, newPassword))) {
+                throw new Error("Windows rejected the new password over RDP");
+            }
+            logger.info("[credentials] Test RDP login with the new password succeeded");
 
-        // 4. Write new compose file
-        this.containerMgr!.writeCompose(composeConfig);
-        logger.info(`Wrote new compose file to: ${composeFilePath}`);
+            // 3. Commit the new password on the host
+            await setVMPassword(this.vm, newPassword);
 
-        // 5. Deploy the container with the new compose file
-        await this.containerMgr!.compose("up");
+            const oemHashPath = path.join(this.vm.dataDir, "oem", "auth.hash");
+            if (fs.existsSync(path.dirname(oemHashPath))) {
+                fs.writeFileSync(oemHashPath, newHash, { encoding: "utf8" });
+            }
+        } catch (e) {
+            logger.error("[credentials] Rotation failed, restoring the old password");
+            logger.error(e);
 
-        logger.info("Replace compose config completed, successfully deployed new container");
+            const message = e instanceof Error ? e.message : String(e);
+            const rolledBack = await this.#restoreCredentials(username, newPassword, password);
+            throw new CredentialRotationError(
+                rolledBack
+                    ? `${message}. The old password has been restored`
+                    : `${message}. Restoring the old password failed as well, check the logs`,
+                rolledBack,
+            );
+        }
 
-        this.containerActionLoading.value = false;
+        logger.info("[credentials] Password rotated successfully");
+    }
+
+    /**
+     * Rolls the guest back to the old password after a failed rotation
+     * @returns Whether the guest accepted the old password again
+     */
+    async #restoreCredentials(username: string, newPassword: string, oldPassword: string): Promise<boolean> {
+        try {
+            await this.guestApi.rotateCredentials(newPassword, username, oldPassword, await argon2.hash(oldPassword));
+
+            // The secret store may have been updated already
+            if ((await getVMPassword(this.vm)) !== oldPassword) {
+                await setVMPassword(this.vm, oldPassword);
+            }
+
+            logger.info("[credentials] Restored the old password");
+            return true;
+        } catch (e) {
+            logger.error("[credentials] Failed to restore the old password");
+            logger.error(e);
+            return false;
+        }
+    }
+
+    /**
+     * Logs in over RDP without opening a session, to check whether Windows accepts the credentials
+     */
+    async #testRDPAuth(username: string, password: string): Promise<boolean> {
+        // The mock guest server has no RDP server to test against
+        if (process.env.WINBOAT_MOCK_GUEST) return true;
+
+        const freeRDPInstallation = await getFreeRDP();
+        if (!freeRDPInstallation) {
+            throw new Error("No FreeRDP installation found to test the new password with");
+        }
+
+        const rdpHostPort = getActiveHostPort(this.containerMgr!, CommonPorts.RDP)!;
+        const args = ["/v:127.0.0.1", `/port:${rdpHostPort}`, "/cert:ignore", "+auth-only"];
+
+        try {
+            await freeRDPInstallation.exec(args, { username, password });
+            return true;
+        } catch (e) {
+            logger.warn(`[credentials] Test RDP login failed with code '${(e as ExecFileAsyncError).code}'`);
+            return false;
+        }
     }
 
     async resetWinboat() {
+        // The default VM's directory is WINBOAT_DIR itself, which also holds the other VMs
+        if (this.vm.id === DEFAULT_VM_ID && getVMs().length > 1) {
+            throw new Error("Remove all other VMs before resetting the default VM");
+        }
+
         console.info("Resetting Winboat...");
 
         // 1. Stop container
@@ -636,7 +1334,7 @@ export class Winboat {
             await execAsync("docker volume rm winboat_data");
             console.info("Removed volume");
         } else {
-            const storageFolder = storage?.split(":").at(0) ?? null;
+            const storageFolder = Winboat.getStorageFolder(compose);
             if (storageFolder && fs.existsSync(storageFolder)) {
                 fs.rmSync(storageFolder, { recursive: true, force: true });
                 console.info(`Removed storage folder at ${storageFolder}`);
@@ -645,14 +1343,64 @@ export class Winboat {
             }
         }
 
-        // 4. Remove WinBoat directory
-        fs.rmSync(WINBOAT_DIR, { recursive: true, force: true });
-        console.info(`Removed ${WINBOAT_DIR}`);
+        // 4. Remove the launchers exported to the host's application menu and the password
+        this.appMgr?.launchers.removeAll();
+        await deleteVMPassword(this.vm).catch(e => logger.warn(e));
+
+        // 5. Remove the VM's directory, which for the default VM is the whole WinBoat directory
+        fs.rmSync(this.vm.dataDir, { recursive: true, force: true });
+        console.info(`Removed ${this.vm.dataDir}`);
+
+        if (this.vm.id !== DEFAULT_VM_ID) {
+            unregisterVM(this.vm.id);
+            Winboat.instances.delete(this.vm.id);
+            console.info(`Unregistered VM '${this.vm.name}'`);
+        }
+
         console.info("So long and thanks for all the fish!");
     }
 
-    async launchApp(app: WinApp) {
-        if (!this.isOnline) throw new Error("Cannot launch app, Winboat is offline");
+    /**
+     * Waits for the VM to boot on behalf of a launch, keeping it in {@link queuedLaunches} meanwhile
+     */
+    async #queueLaunch(app: WinApp) {
+        const launch: QueuedLaunch = { id: this.#nextLaunchId++, appName: app.Name, since: Date.now(), error: null };
+        this.queuedLaunches.value = [...this.queuedLaunches.value, launch];
+        logger.info(`Queued launch of '${app.Name}' until the VM is ready`);
+
+        try {
+            await this.ensureRunning();
+        } catch (e) {
+            // Failed launches stay around so that the UI can tell the user, see dismissQueuedLaunch
+            this.queuedLaunches.value = this.queuedLaunches.value.map(queued =>
+                queued.id === launch.id ? { ...queued, error: (e as Error).message } : queued,
+            );
+            throw e;
+        }
+
+        this.dismissQueuedLaunch(launch.id);
+    }
+
+    dismissQueuedLaunch(id: number) {
+        this.queuedLaunches.value = this.queuedLaunches.value.filter(queued => queued.id !== id);
+    }
+
+    /**
+     * Launches an app through FreeRDP, returning once its session ends. The session is tracked in {@link sessions},
+     * and single-instance apps that are already running get focused instead.
+     * Paused or stopped VMs are booted first, with the launch waiting in {@link queuedLaunches}
+     * @param app The app to launch
+     * @param hostFiles Host files to open in the app, see {@link resolveGuestPaths}
+     * @throws {HostPathError} If one of the files can't be reached from Windows
+     * @throws {BootTimeoutError} If the VM had to be booted, but didn't get ready in time
+     * @throws {FreeRDPError} If the session failed, rather than ending normally
+     */
+    async launchApp(app: WinApp, hostFiles: string[] = []) {
+        this.#lastActivity = Date.now();
+
+        if (!this.isReady && !process.env.WINBOAT_MOCK_GUEST) {
+            await this.#queueLaunch(app);
+        }
 
         if (customAppCallbacks[app.Path]) {
             logger.info(`Found custom app command for '${app.Name}'`);
@@ -662,47 +1410,24 @@ export class Winboat {
             return;
         }
 
-        const cleanAppName = app.Name.replaceAll(/[,.'"]/g, "");
-        const { username, password } = this.getCredentials();
+        const runningSession = this.sessions.findByApp(app.Name);
+        if (runningSession && this.appMgr?.getLaunchProfile(app)?.singleInstance) {
+            logger.info(`'${app.Name}' is single-instance and already running, focusing it instead`);
+            await this.sessions.focus(runningSession).catch(e => logger.warn(e));
+            return;
+        }
 
-        const rdpHostPort = getActiveHostPort(this.containerMgr!, CommonPorts.RDP)!;
+        const credentials = await this.getCredentials();
+        const guestFiles = resolveGuestPaths(
+            hostFiles,
+            Winboat.readCompose(this.containerMgr!.composeFilePath),
+            this.#wbConfig?.config.stageOutsideFiles ?? false,
+        );
 
         logger.info(`Launching app: ${app.Name} at path ${app.Path}`);
 
         const freeRDPInstallation = await getFreeRDP();
-
-        logger.info(`Launching app: ${app.Name} at path ${app.Path}`);
-
-        // Arguments specified by user to override stock arguments
-        const replacementArgs = this.#wbConfig?.config.rdpArgs.filter(a => a.isReplacement);
-        // Additional (new) arguments added by user
-        const newArgs = this.#wbConfig?.config.rdpArgs.filter(a => !a.isReplacement).map(v => v.newArg) ?? [];
-        // The stock arguments after any replacements have been made and new arguments have been added
-        const combinedArgs = stockArgs
-            .map(argStr =>
-                useOriginalIfUndefinedOrNull(replacementArgs?.find(r => argStr === r.original?.trim())?.newArg, argStr),
-            )
-            .concat(newArgs);
-        let args = [`/u:${username}`, `/p:${password}`, `/v:127.0.0.1`, `/port:${rdpHostPort}`, ...combinedArgs];
-
-        if (app.Path == InternalApps.WINDOWS_DESKTOP) {
-            args = args.concat([
-                "+f",
-                this.#wbConfig?.config.smartcardEnabled ? "/smartcard" : "",
-                `/scale:${this.#wbConfig?.config.scale ?? 100}`,
-            ]);
-        } else {
-            args = args.concat([
-                this.#wbConfig?.config.multiMonitor === MultiMonitorMode.Span ? "+span" : "",
-                "-wallpaper",
-                this.#wbConfig?.config.multiMonitor === MultiMonitorMode.MultiMon ? "/multimon" : "",
-                `/scale-desktop:${this.#wbConfig?.config.scaleDesktop ?? 100}`,
-                `/wm-class:winboat-${cleanAppName}`,
-                `/app:program:${app.Path},name:${cleanAppName},cmd:"${app.Args}"`,
-            ]);
-        }
-
-        args = args.filter((v, _i, _a) => v.trim() !== "");
+        const args = this.getLaunchArgs(app, guestFiles);
 
         this.appMgr?.incrementAppUsage(app);
         this.appMgr?.writeToDisk();
@@ -712,37 +1437,67 @@ export class Winboat {
             return;
         }
 
+        let exitCode = 0;
+        let output = "";
+
+        logger.info(`Launch FreeRDP with command:\n${freeRDPInstallation.stringifyExec(args, credentials)}`);
+        const execution = freeRDPInstallation.exec(args, credentials);
+        const session = this.sessions.track(app, execution.child);
+
         try {
-            logger.info(`Launch FreeRDP with command:\n${freeRDPInstallation.stringifyExec(args)}`);
-            await freeRDPInstallation.exec(args);
+            const { stdout, stderr } = await execution;
+            output = `${stdout}\n${stderr}`;
         } catch (e) {
             const execError = e as ExecFileAsyncError;
-            const ERRINFO_RPC_INITIATED_DISCONNECT = 0x00000001;
-            const ERRINFO_LOGOFF_BY_USER = 0x0000000c;
-
-            // TODO: Handle all FreeRDP error codes
-            // https://github.com/FreeRDP/FreeRDP/blob/3fc1c3ce31b5af1098d15603d7b3fe1c93cf77a5/include/freerdp/error.h#L58
-            switch (execError.code) {
-                case ERRINFO_RPC_INITIATED_DISCONNECT: {
-                    logger.info("FreeRDP connection already established.");
-                    logger.info("Creating new session..");
-                    break;
-                }
-                case ERRINFO_LOGOFF_BY_USER: {
-                    logger.info("FreeRDP disconnected due to user logging off.");
-                    break;
-                }
-                default: {
-                    logger.warn(`FreeRDP process returned error code '${execError.code}'`);
+            if (typeof execError.code !== "number") {
+                if (!execError.signal) throw e;
+
+                if (this.sessions.wasCloseRequested(session)) {
+                    logger.info(`FreeRDP session of '${app.Name}' was closed with ${execError.signal}`);
+                } else {
+                    logger.warn(`FreeRDP was terminated by ${execError.signal}`);
+                    this.sessions.reportAbnormalExit(session, `Terminated by ${execError.signal}`);
                 }
+                return;
             }
+
+            exitCode = execError.code;
+            output = `${execError.stdout}\n${execError.stderr}`;
         }
+
+        const failure = getFreeRDPFailure(exitCode, output);
+        // Closing a session can make FreeRDP report a lost connection
+        if (!failure || this.sessions.wasCloseRequested(session)) {
+            if (exitCode) logger.info(`FreeRDP session ended: ${FREERDP_EXIT_CODES[exitCode]?.message ?? exitCode}`);
+            return;
+        }
+
+        logger.error(
+            `FreeRDP exited with code ${exitCode}: ${failure.message} (${failure.description.name}).` +
+                ` Errors in its output: ${failure.outputErrors.join(", ") || "none"}`,
+        );
+        const lastOutput = output.trim().split("\n").slice(-FREERDP_OUTPUT_LOG_LINES);
+        logger.error(`FreeRDP's last output:\n${lastOutput.join("\n")}`);
+        this.sessions.reportAbnormalExit(session, failure.message, failure);
+        throw failure;
+    }
+
+    /**
+     * Builds the FreeRDP arguments for launching an app with its launch profile, see {@link buildFreeRDPArgs}
+     * @param guestFiles Guest paths of the files to open in the app
+     * @param profile Used instead of the app's own profile, e.g. to preview one that's being edited
+     */
+    getLaunchArgs(app: WinApp, guestFiles: string[] = [], profile = this.appMgr?.getLaunchProfile(app)): string[] {
+        const appCmd = [app.Args, ...guestFiles.map(file => `"${file}"`)].filter(Boolean).join(" ");
+        // The port mappings are only missing before the container is up, which a preview can live with
+        const rdpHostPort = getActiveHostPort(this.containerMgr!, CommonPorts.RDP) ?? CommonPorts.RDP;
+
+        return buildFreeRDPArgs(app, resolveLaunchSettings(this.#wbConfig!.config, profile), { rdpHostPort, appCmd });
     }
 
     async checkVersionAndUpdateGuestServer() {
         // 1. Get the version of the guest server and compare it to the current version
-        const versionRes = await nodeFetch(`${this.apiUrl}/version`);
-        const version = (await versionRes.json()) as GuestServerVersion;
+        const version = await this.guestApi.getVersion();
 
         const appVersion = import.meta.env.VITE_APP_VERSION;
         const runtimeKind = this.#wbConfig?.config.containerRuntime ?? RuntimeKinds.DOCKER;
@@ -776,6 +1531,11 @@ export class Winboat {
 
         // 3. Set update flag & grab winboat_guest_server.zip from Electron assets
         this.isUpdatingGuestServer.value = true;
+
+        if (this.#wbConfig?.config.autoSnapshots) {
+            await this.snapshots.createAutomatic("updating the guest server");
+        }
+
         const guestServerBasePath = remote.app.isPackaged
             ? path.join(process.resourcesPath, "guest_server")
             : path.join(remote.app.getAppPath(), "..", "..", "guest_server");
@@ -783,7 +1543,7 @@ export class Winboat {
         const zipCandidates = [
             path.join(guestServerBasePath, "dist", guestArch, "winboat_guest_server.zip"),
             path.join(guestServerBasePath, "dist", `windows-${guestArch}`, "winboat_guest_server.zip"),
-            path.join(guestServerBasePath, "dist", `winboat_guest_server_${guestArch}.zip"),
+            path.join(guestServerBasePath, "dist", `winboat_guest_server_${guestArch}.zip`),
         ];
         if (guestArch === "amd64") {
             zipCandidates.push(path.join(guestServerBasePath, "winboat_guest_server.zip")); // legacy fallback
@@ -802,25 +1562,17 @@ export class Winboat {
 
         // 4. Send the payload to the guest server
         // as a multipart/form-data with updateFile and password
-        const formData = new FormData();
-        formData.append("updateFile", fs.createReadStream(zipPath));
-        const { password } = this.getCredentials();
-        formData.append("password", password);
+        const { password } = await this.getCredentials();
 
         try {
-            const res = await nodeFetch(`${this.apiUrl}/update`, {
-                method: "POST",
-                body: formData as any,
-            });
-            if (res.status !== 200) {
-                const resBody = await res.text();
-                throw new Error(resBody);
-            }
-            const resJson = (await res.json()) as GuestServerUpdateResponse;
+            const resJson = await this.guestApi.update(zipPath, password);
             logger.info(`Update params: ${JSON.stringify(resJson, null, 4)}`);
             logger.info("Successfully sent update payload to guest server");
         } catch (e) {
             logger.error("Failed to send update payload to guest server");
+            if (e instanceof GuestUnauthorizedError) {
+                logger.error("The guest server rejected the password, was it changed inside Windows?");
+            }
             logger.error(e);
             this.isUpdatingGuestServer.value = false;
             throw e;
@@ -838,25 +1590,14 @@ export class Winboat {
         // 6. [OPTIONAL] Apply authentication hash in case it's not set yet, because
         // it will be required during future updates
         try {
-            const { password } = this.getCredentials();
+            const { password } = await this.getCredentials();
             const hash = await argon2.hash(password);
 
-            const authFormData = new FormData();
-            authFormData.append("authHash", hash);
-
-            const authRes = await nodeFetch(`${this.apiUrl}/auth/set-hash`, {
-                method: "POST",
-                body: authFormData as any,
-            });
-
-            if (authRes.status === 200) {
+            if (await this.guestApi.setAuthHash(hash)) {
                 logger.info("Successfully set auth hash for existing installation");
-            } else if (authRes.status === 400) {
+            } else {
                 // Hash already set, this is expected for existing installations that already have it
                 logger.info("Auth hash already set, skipping enrollment");
-            } else {
-                const errorText = await authRes.text();
-                logger.warn(`Unexpected response when setting auth hash: ${authRes.status} - ${errorText}`);
             }
         } catch (e) {
             logger.error("Failed to set auth hash (non-critical error)");
@@ -875,6 +1616,10 @@ export class Winboat {
     }
 
     get apiUrl(): string | undefined {
+        if (Winboat.#mockGuestServer) {
+            return Winboat.#mockGuestServer.url;
+        }
+
         const apiPort = getActiveHostPort(this.containerMgr!, CommonPorts.API);
 
         if (!apiPort) return undefined;
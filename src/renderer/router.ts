@@ -7,6 +7,9 @@ import About from "./views/About.vue";
 import Blank from "./views/Blank.vue";
 import Config from "./views/Config.vue";
 import Migration from "./views/Migration.vue";
+import Backups from "./views/Backups.vue";
+import Logs from "./views/Logs.vue";
+import Running from "./views/Running.vue";
 
 export const routes: RouteRecordRaw[] = [
     { path: "/", name: "Loading", component: Blank, meta: { icon: "line-md:loading-loop" } },
@@ -14,7 +17,10 @@ export const routes: RouteRecordRaw[] = [
     { path: "/migration", name: "Migration", component: Migration, meta: { icon: "fluent:home-32-filled" } },
     { path: "/setup", name: "SetupUI", component: SetupUI, meta: { icon: "fluent-mdl2:install-to-drive" } },
     { path: "/apps", name: "Apps", component: Apps, meta: { icon: "fluent:apps-32-filled" } },
+    { path: "/running", name: "Running", component: Running, meta: { icon: "mdi:play-box-multiple-outline" } },
     { path: "/configuration", name: "Configuration", component: Config, meta: { icon: "icon-park-outline:config" } },
+    { path: "/backups", name: "Backups", component: Backups, meta: { icon: "mdi:history" } },
+    { path: "/logs", name: "Logs", component: Logs, meta: { icon: "mdi:text-box-search-outline" } },
     { path: "/about", name: "About", component: About, meta: { icon: "fluent:info-32-filled" } },
 ];
 
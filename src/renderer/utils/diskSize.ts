@@ -0,0 +1,14 @@
+// Sizes are written the way QEMU takes them, e.g. '64G' or '1T'
+const DISK_SIZE_REGEX = /^(\d+(?:\.\d+)?)\s*([MGT])?B?$/i;
+const UNIT_GB: Record<string, number> = { M: 1 / 1024, G: 1, T: 1024 };
+
+/**
+ * Parses a `DISK_SIZE` from a compose file into GB, a missing unit means GB
+ * @returns The size, or `NaN` if it can't be parsed
+ */
+export function parseDiskSizeGB(diskSize: string): number {
+    const match = diskSize.trim().match(DISK_SIZE_REGEX);
+    if (!match) return NaN;
+
+    return Number(match[1]) * UNIT_GB[(match[2] ?? "G").toUpperCase()];
+}
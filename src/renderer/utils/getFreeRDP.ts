@@ -1,6 +1,15 @@
 import { execFileAsync, stringifyExecFile } from "../lib/exec-helper";
 const process: typeof import("process") = require("node:process");
 
+export type FreeRDPCredentials = {
+    username: string;
+    password: string;
+};
+
+// Arguments whose values are secrets: passwords (also the gateway's) and pass-the-hash hashes
+const SECRET_ARG_REGEX = /^([/+-](?:p|gp|pth):).+$/i;
+const SECRET_MASK = "********";
+
 export class FreeRDPInstallation {
     file: string;
     defaultArgs: string[];
@@ -10,15 +19,42 @@ export class FreeRDPInstallation {
         this.defaultArgs = defaultArgs;
     }
 
-    exec(args: string[]): Promise<{
+    /**
+     * Runs FreeRDP, the password is written to its stdin so that it doesn't show up in the process list
+     * @param credentials The credentials to log in with, if any
+     */
+    exec(
+        args: string[],
+        credentials?: FreeRDPCredentials,
+    ): import("child_process").PromiseWithChild<{
         stdout: string;
         stderr: string;
     }> {
-        return execFileAsync(this.file, this.defaultArgs.concat(args));
+        const child = execFileAsync(this.file, this.defaultArgs.concat(this.#credentialArgs(credentials), args));
+
+        // '/from-stdin:force' prompts for whatever's missing before connecting: the username and the (empty) domain
+        // are passed as arguments, so the password is all that's read
+        if (credentials) {
+            child.child.stdin!.end(`${credentials.password}\n`);
+        }
+
+        return child;
+    }
+
+    /**
+     * Stringifies the command {@link exec} would run, with secrets masked so that it can be logged
+     */
+    stringifyExec(args: string[], credentials?: FreeRDPCredentials): string {
+        return stringifyExecFile(
+            this.file,
+            this.defaultArgs
+                .concat(this.#credentialArgs(credentials), args)
+                .map(arg => arg.replace(SECRET_ARG_REGEX, `$1${SECRET_MASK}`)),
+        );
     }
 
-    stringifyExec(args: string[]): string {
-        return stringifyExecFile(this.file, this.defaultArgs.concat(args));
+    #credentialArgs(credentials?: FreeRDPCredentials): string[] {
+        return credentials ? [`/u:${credentials.username}`, "/d:", "/from-stdin:force"] : [];
     }
 }
 
@@ -1,8 +1,178 @@
 import { createConsola } from "consola";
-const { writeFileSync, appendFileSync, mkdirSync }: typeof import("fs") = require("node:fs");
-const { dirname }: typeof import("path") = require("node:path");
+import { redact } from "./redact";
+const fs: typeof import("fs") = require("node:fs");
+const { basename, dirname, join }: typeof import("path") = require("node:path");
+const zlib: typeof import("zlib") = require("node:zlib");
 
-export function createLogger(filePath: string) {
+export type LogRotationOptions = {
+    // Rotate once the file would grow past this size, 0 disables size-based rotation
+    maxSizeMB: number;
+    // Rotate once the file is older than this, 0 disables age-based rotation
+    maxAgeDays: number;
+    // How many rotated files are kept next to the current one
+    maxFiles: number;
+    // Whether rotated files get gzipped
+    compress: boolean;
+};
+
+export type RotatedLog = {
+    path: string;
+    // 1 is the most recently rotated file
+    index: number;
+    compressed: boolean;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Rotated files are named `<file>.<index>`, or `<file>.<index>.gz` if compressed
+const ROTATED_SUFFIX_REGEX = /^\.(\d+)(\.gz)?$/;
+// Lines start with the UTC time they were logged at, see createLogger
+const LINE_TIMESTAMP_REGEX = /^(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2}) \|/;
+
+let defaultRotation: LogRotationOptions = { maxSizeMB: 5, maxAgeDays: 30, maxFiles: 5, compress: true };
+
+type OpenLogFile = {
+    fd: number;
+    size: number;
+    createdAt: number;
+};
+
+// Loggers writing to the same file share its descriptor, so rotating it in one of them can't pull the rug out from
+// under the others. Writes and rotations are synchronous, so they never interleave within a process
+const openFiles = new Map<string, OpenLogFile>();
+
+/**
+ * Changes the rotation settings of every logger, except what they override themselves
+ */
+export function configureLogRotation(options: Partial<LogRotationOptions>) {
+    defaultRotation = { ...defaultRotation, ...options };
+}
+
+/**
+ * Returns the rotated files of a log file, newest first
+ */
+export function listRotatedLogs(filePath: string): RotatedLog[] {
+    const dir = dirname(filePath);
+    const fileName = basename(filePath);
+    if (!fs.existsSync(dir)) return [];
+
+    return fs
+        .readdirSync(dir)
+        .filter(entry => entry.startsWith(fileName))
+        .map(entry => ({ entry, match: entry.slice(fileName.length).match(ROTATED_SUFFIX_REGEX) }))
+        .filter(({ match }) => !!match)
+        .map(({ entry, match }) => ({ path: join(dir, entry), index: Number(match![1]), compressed: !!match![2] }))
+        .sort((a, b) => a.index - b.index);
+}
+
+function openLogFile(filePath: string): OpenLogFile {
+    fs.mkdirSync(dirname(filePath), { recursive: true });
+
+    const fd = fs.openSync(filePath, "a");
+    const stats = fs.fstatSync(fd);
+    const file = { fd, size: stats.size, createdAt: readCreationTime(filePath, stats) };
+
+    openFiles.set(filePath, file);
+    return file;
+}
+
+/**
+ * Returns when a log file was started, going by its first line. Not every filesystem records the birth time,
+ * and the change time moves with every write
+ */
+function readCreationTime(filePath: string, stats: import("fs").Stats): number {
+    if (!stats.size) return Date.now();
+
+    const head = Buffer.alloc(64);
+    const fd = fs.openSync(filePath, "r");
+    try {
+        fs.readSync(fd, head, 0, head.length, 0);
+    } finally {
+        fs.closeSync(fd);
+    }
+
+    const match = head.toString().match(LINE_TIMESTAMP_REGEX);
+    const loggedAt = match ? Date.parse(`${match[1]}T${match[2]}Z`) : NaN;
+
+    return Number.isNaN(loggedAt) ? stats.birthtimeMs || Date.now() : loggedAt;
+}
+
+function closeLogFile(filePath: string) {
+    const file = openFiles.get(filePath);
+    if (!file) return;
+
+    openFiles.delete(filePath);
+    try {
+        fs.closeSync(file.fd);
+    } catch {}
+}
+
+/**
+ * Moves the current file to `<file>.1`, shifting the older ones up and dropping what exceeds `maxFiles`
+ */
+function rotateLogFile(filePath: string, options: LogRotationOptions) {
+    closeLogFile(filePath);
+
+    // Oldest first, so that nothing gets overwritten while shifting
+    for (const rotated of listRotatedLogs(filePath).reverse()) {
+        if (rotated.index >= options.maxFiles) {
+            fs.rmSync(rotated.path, { force: true });
+        } else {
+            fs.renameSync(rotated.path, `${filePath}.${rotated.index + 1}${rotated.compressed ? ".gz" : ""}`);
+        }
+    }
+
+    if (options.maxFiles < 1) {
+        fs.rmSync(filePath, { force: true });
+        return;
+    }
+
+    const rotatedPath = `${filePath}.1`;
+    fs.renameSync(filePath, rotatedPath);
+
+    if (options.compress) {
+        fs.writeFileSync(`${rotatedPath}.gz`, zlib.gzipSync(fs.readFileSync(rotatedPath)));
+        fs.rmSync(rotatedPath);
+    }
+}
+
+function needsRotation(file: OpenLogFile, bytes: number, options: LogRotationOptions): boolean {
+    // A single line larger than the limit still has to go somewhere
+    if (!file.size) return false;
+
+    return (
+        (options.maxSizeMB > 0 && file.size + bytes > options.maxSizeMB * 1024 * 1024) ||
+        (options.maxAgeDays > 0 && Date.now() - file.createdAt > options.maxAgeDays * DAY_MS)
+    );
+}
+
+function writeLogLine(filePath: string, line: string, options: LogRotationOptions) {
+    const bytes = Buffer.byteLength(line);
+
+    // The file may have been deleted (e.g. by resetting WinBoat) or moved by another process's rotation
+    let file = openFiles.get(filePath);
+    if (!file || !fs.existsSync(filePath)) {
+        closeLogFile(filePath);
+        file = openLogFile(filePath);
+    }
+
+    if (needsRotation(file, bytes, options)) {
+        try {
+            rotateLogFile(filePath, options);
+        } catch (e) {
+            console.error(`Failed to rotate ${filePath}`, e);
+        }
+
+        file = openLogFile(filePath);
+    }
+
+    fs.writeSync(file.fd, line);
+    file.size += bytes;
+}
+
+/**
+ * @param rotation Overrides the rotation settings from {@link configureLogRotation} for this logger
+ */
+export function createLogger(filePath: string, rotation: Partial<LogRotationOptions> = {}) {
     const logger = createConsola({
         level: 4,
         formatOptions: {
@@ -12,23 +182,20 @@ export function createLogger(filePath: string) {
         },
     });
 
-    // Add file logging with directory creation
+    // Add file logging with rotation
     logger.addReporter({
         log: logObj => {
             const timestamp = new Date().toISOString().replace("T", " ").substring(0, 19);
             const level = logObj.type.toUpperCase();
-            const message = logObj.args.join(" ");
+            // Passwords end up in compose contents and commands, they must never hit the disk
+            const message = redact(logObj.args.join(" "));
             const logLine = `${timestamp} | ${level} | ${message}\n`;
 
             try {
-                appendFileSync(filePath, logLine);
-            } catch {
-                // Create the directory path if it doesn't exist
-                const dir = dirname(filePath);
-                mkdirSync(dir, { recursive: true });
-
-                // Now create the file
-                writeFileSync(filePath, logLine);
+                writeLogLine(filePath, logLine, { ...defaultRotation, ...rotation });
+            } catch (e) {
+                console.error(`Failed to write to ${filePath}`, e);
+                closeLogFile(filePath);
             }
         },
     });
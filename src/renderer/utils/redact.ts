@@ -0,0 +1,127 @@
+const fs: typeof import("fs") = require("node:fs");
+const path: typeof import("path") = require("node:path");
+const zlib: typeof import("zlib") = require("node:zlib");
+
+// What secrets are replaced with
+export const REDACTED = "********";
+// Anything shorter would mask ordinary words all over the logs
+const MIN_SECRET_LENGTH = 4;
+// Keeps already redacted values from being flagged again when scanning
+const NOT_REDACTED = `(?!${REDACTED.replace(/\*/g, "\\*")})`;
+
+export type RedactionRule = {
+    name: string;
+    pattern: RegExp;
+    replacement: string;
+};
+
+export const REDACTION_RULES: RedactionRule[] = [
+    {
+        // FreeRDP's password, gateway password and pass-the-hash arguments.
+        // Logged commands escape special characters with backslashes
+        name: "FreeRDP password argument",
+        pattern: new RegExp(`(^|[\\s"'])([/+-](?:p|gp|pth):)${NOT_REDACTED}(?:\\\\.|[^\\s"'\\\\])+`, "gim"),
+        replacement: `$1$2${REDACTED}`,
+    },
+    {
+        // Compose environments (`PASSWORD: ...`), env files and JSON. The `${WINBOAT_PASSWORD}` reference is fine
+        name: "Password assignment",
+        pattern: new RegExp(`(password["']?\\s*[:=]\\s*["']?)${NOT_REDACTED}(?!\\$\\{)[^\\s"'\\\\,}]+`, "gi"),
+        replacement: `$1${REDACTED}`,
+    },
+    {
+        name: "Argon2 hash",
+        pattern: /\$argon2(?:id|i|d)\$[^\s"'\\]+/g,
+        replacement: REDACTED,
+    },
+];
+
+const knownSecrets = new Set<string>();
+
+/**
+ * Masks `secret` wherever it shows up in the logs from now on
+ */
+export function registerSecret(secret: string) {
+    if (secret.length >= MIN_SECRET_LENGTH) {
+        knownSecrets.add(secret);
+    }
+}
+
+export function unregisterSecret(secret: string) {
+    knownSecrets.delete(secret);
+}
+
+/**
+ * Masks the registered secrets and whatever matches the {@link REDACTION_RULES}
+ */
+export function redact(text: string): string {
+    // Longest first, so that a secret containing another one isn't left partially visible
+    for (const secret of [...knownSecrets].sort((a, b) => b.length - a.length)) {
+        text = text.replaceAll(secret, REDACTED);
+    }
+
+    for (const rule of REDACTION_RULES) {
+        text = text.replace(rule.pattern, rule.replacement);
+    }
+
+    return text;
+}
+
+export type SecretLeak = {
+    file: string;
+    // 1-based
+    line: number;
+    // The rule that matched, or "Known secret"
+    rule: string;
+    // The line with the secret masked
+    excerpt: string;
+};
+
+const MAX_EXCERPT_LENGTH = 200;
+
+// Current log files along with their rotated, possibly gzipped, predecessors
+const LOG_FILE_REGEX = /\.log(\.\d+)?(\.gz)?$/;
+
+/**
+ * Lists the log files in `logDir`, rotated ones included
+ */
+export function listLogFiles(logDir: string): string[] {
+    if (!fs.existsSync(logDir)) return [];
+
+    return fs
+        .readdirSync(logDir)
+        .filter(fileName => LOG_FILE_REGEX.test(fileName))
+        .map(fileName => path.join(logDir, fileName));
+}
+
+/**
+ * Reads a log file, decompressing it if it's a gzipped rotated one
+ */
+export function readLogFile(file: string): string {
+    const content = fs.readFileSync(file);
+    return (file.endsWith(".gz") ? zlib.gunzipSync(content) : content).toString("utf-8");
+}
+
+/**
+ * Scans the log files in `logDir`, rotated ones included, for secrets that were written before redaction
+ * or slipped past it
+ */
+export function scanLogsForSecrets(logDir: string): SecretLeak[] {
+    const leaks: SecretLeak[] = [];
+
+    for (const file of listLogFiles(logDir)) {
+        readLogFile(file)
+            .split("\n")
+            .forEach((line, index) => {
+                const rule = [...knownSecrets].some(secret => line.includes(secret))
+                    ? "Known secret"
+                    : REDACTION_RULES.find(rule => line.search(rule.pattern) !== -1)?.name;
+
+                if (rule) {
+                    leaks.push({ file, line: index + 1, rule, excerpt: redact(line).slice(0, MAX_EXCERPT_LENGTH) });
+                }
+            });
+    }
+
+    return leaks;
+}
@@ -0,0 +1,93 @@
+const zlib: typeof import("zlib") = require("node:zlib");
+
+export type ZipEntry = {
+    // Forward slashes separate directories
+    name: string;
+    data: Buffer | string;
+    // Defaults to now
+    date?: Date;
+};
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+// 2.0, the first version with deflate and directories
+const ZIP_VERSION = 20;
+// Bit 11, file names are UTF-8
+const UTF8_FLAG = 0x0800;
+const DEFLATE_METHOD = 8;
+// Without ZIP64, sizes and offsets have to fit into 32 bits
+const MAX_ZIP_SIZE = 0xffffffff;
+
+/**
+ * Packs a date into the MS-DOS time and date fields zip headers use, which only have a 2 second resolution
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+    return {
+        time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+        date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+    };
+}
+
+/**
+ * Creates a deflate compressed zip archive in memory, meant for small archives like diagnostics bundles
+ */
+export function createZip(entries: ZipEntry[]): Buffer {
+    const localParts: Buffer[] = [];
+    const centralParts: Buffer[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const name = Buffer.from(entry.name, "utf-8");
+        const data = typeof entry.data === "string" ? Buffer.from(entry.data, "utf-8") : entry.data;
+        const compressed = zlib.deflateRawSync(data);
+        const crc = zlib.crc32(data);
+        const { time, date } = toDosDateTime(entry.date ?? new Date());
+
+        const localHeader = Buffer.alloc(30);
+        localHeader.writeUInt32LE(LOCAL_HEADER_SIGNATURE, 0);
+        localHeader.writeUInt16LE(ZIP_VERSION, 4);
+        localHeader.writeUInt16LE(UTF8_FLAG, 6);
+        localHeader.writeUInt16LE(DEFLATE_METHOD, 8);
+        localHeader.writeUInt16LE(time, 10);
+        localHeader.writeUInt16LE(date, 12);
+        localHeader.writeUInt32LE(crc, 14);
+        localHeader.writeUInt32LE(compressed.length, 18);
+        localHeader.writeUInt32LE(data.length, 22);
+        localHeader.writeUInt16LE(name.length, 26);
+        localHeader.writeUInt16LE(0, 28);
+
+        const centralHeader = Buffer.alloc(46);
+        centralHeader.writeUInt32LE(CENTRAL_HEADER_SIGNATURE, 0);
+        centralHeader.writeUInt16LE(ZIP_VERSION, 4);
+        centralHeader.writeUInt16LE(ZIP_VERSION, 6);
+        centralHeader.writeUInt16LE(UTF8_FLAG, 8);
+        centralHeader.writeUInt16LE(DEFLATE_METHOD, 10);
+        centralHeader.writeUInt16LE(time, 12);
+        centralHeader.writeUInt16LE(date, 14);
+        centralHeader.writeUInt32LE(crc, 16);
+        centralHeader.writeUInt32LE(compressed.length, 20);
+        centralHeader.writeUInt32LE(data.length, 24);
+        centralHeader.writeUInt16LE(name.length, 28);
+        // Extra field, comment, disk number, internal and external attributes are all left at 0
+        centralHeader.writeUInt32LE(offset, 42);
+
+        localParts.push(localHeader, name, compressed);
+        centralParts.push(centralHeader, name);
+        offset += localHeader.length + name.length + compressed.length;
+
+        if (offset > MAX_ZIP_SIZE) {
+            throw new Error("The archive exceeds 4 GiB, which needs ZIP64");
+        }
+    }
+
+    const centralDirectory = Buffer.concat(centralParts);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0);
+    end.writeUInt16LE(entries.length, 8);
+    end.writeUInt16LE(entries.length, 10);
+    end.writeUInt32LE(centralDirectory.length, 12);
+    end.writeUInt32LE(offset, 16);
+
+    return Buffer.concat([...localParts, centralDirectory, end]);
+}
@@ -1,6 +1,7 @@
 import { type WindowsVersionKey } from "./renderer/lib/constants";
 import { type RuntimeKind } from "./renderer/lib/runtimes/common";
 import { type Winboat } from "./renderer/lib/winboat";
+import { type MultiMonitorMode, type RdpArg } from "./renderer/lib/config";
 
 export type Specs = {
     cpuCores: number;
@@ -25,6 +26,7 @@ export type InstallConfiguration = {
     customIsoPath?: string;
     sharedFolderPath?: string;
     container: RuntimeKind;
+    vm: WinboatVM;
 };
 
 export type WinApp = {
@@ -35,6 +37,40 @@ export type WinApp = {
     Icon: string;
     Source: string;
     Usage?: number;
+    // Only persisted for custom apps, discovered apps keep theirs in WinboatVM.launchProfiles
+    Profile?: LaunchProfile;
+};
+
+/**
+ * Overrides the global RDP settings when launching a specific app. Settings left out fall back to the global ones
+ */
+export type LaunchProfile = {
+    scale?: number;
+    scaleDesktop?: number;
+    multiMonitor?: MultiMonitorMode;
+    smartcardEnabled?: boolean;
+    // Replaces the global list as a whole, rather than being merged with it
+    rdpArgs?: RdpArg[];
+    // Passed after every other argument, so they win over the ones before
+    extraArgs?: string[];
+    // Launching the app while it's running focuses its window instead of opening another one
+    singleInstance?: boolean;
+};
+
+export type WinboatVM = {
+    id: string;
+    name: string;
+    // Holds the compose file, OEM assets and per-VM state like app usage
+    dataDir: string;
+    containerName: string;
+    // Added to every host port/range of the runtime's default compose
+    portOffset: number;
+    storageFolder: string;
+    customApps: WinApp[];
+    // MIME types each app is registered as a handler for on the host, keyed by app name
+    mimeTypes: { [appName: string]: string[] };
+    // Launch profiles of discovered apps, keyed by app name
+    launchProfiles: { [appName: string]: LaunchProfile };
 };
 
 export type CustomAppCallbacks = {
@@ -123,6 +159,26 @@ export type GuestServerUpdateResponse = {
     temp_path: string;
 };
 
+export type GuestHealthResponse = {
+    status: string;
+};
+
+export type GuestRDPStatusResponse = {
+    rdpConnected: boolean;
+};
+
+export type GuestAuthHashResponse = {
+    status: string;
+};
+
+export type GuestDiskExtendResponse = {
+    // Whether C: had room to grow into
+    extended: boolean;
+    // Size of C: in bytes
+    previous_size: number;
+    new_size: number;
+};
+
 export type USBDevice = {
     vendorID: string;
     productID: string;
@@ -17,6 +17,12 @@ const config = defineConfig({
         outDir: path.join(__dirname, "build", "renderer"),
         emptyOutDir: true,
         chunkSizeWarningLimit: NaN, // Not needed for a desktop app
+        rollupOptions: {
+            input: {
+                main: path.join(__dirname, "src", "renderer", "index.html"),
+                cli: path.join(__dirname, "src", "renderer", "cli.html"),
+            },
+        },
     },
     plugins: [
         vuePlugin({